@@ -0,0 +1,59 @@
+import assert from 'node:assert/strict';
+import { AddressInfo } from 'node:net';
+import { Server } from 'node:http';
+import { after, before, describe, it } from 'node:test';
+import express from 'express';
+
+import { createApiRouter } from './api-router';
+
+// Express needs Node, so this runs with node:test ("npm run test:api") instead of Karma
+describe('API router', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use('/api', createApiRouter());
+    server = await new Promise<Server>((resolve) => {
+      const listening = app.listen(0, () => resolve(listening));
+    });
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => server.close());
+
+  const post = (path: string, body: string) =>
+    fetch(`${baseUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  it('should answer a valid request', async () => {
+    const response = await post('/api/net-salary', JSON.stringify({ maritalStatus: 'single', location: 'continente', grossSalary: 2500 }));
+
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).irsWithheld, 471.34);
+  });
+
+  it('should report the validation errors as 400', async () => {
+    const response = await post('/api/proposals/by-cost', JSON.stringify({ maritalStatus: 'single' }));
+
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error.code, 'invalid_request');
+  });
+
+  it('should reject a body that is not JSON', async () => {
+    const response = await post('/api/net-salary', '{"grossSalary": ');
+
+    assert.equal(response.status, 400);
+    assert.deepEqual(await response.json(), {
+      error: { code: 'invalid_json', message: 'The request body is not valid JSON.' },
+    });
+  });
+
+  it('should answer 404 for an unknown API path', async () => {
+    const response = await fetch(`${baseUrl}/api/salaries`);
+
+    assert.equal(response.status, 404);
+    assert.deepEqual(await response.json(), {
+      error: { code: 'not_found', message: 'No API endpoint for GET /api/salaries.' },
+    });
+  });
+});
@@ -0,0 +1,37 @@
+import express, { NextFunction, Request, Response, Router } from 'express';
+
+import { ApiError, ApiResponse, SalaryApiService } from './app/services/salary-api.service';
+import { createSalaryApi } from './app/services/salary-services';
+
+/**
+ * JSON API over the salary calculations (see SalaryApiService), mounted on
+ * "/api" by server.ts. The services are created once, outside the Angular
+ * app being rendered.
+ */
+export function createApiRouter(salaryApi: SalaryApiService = createSalaryApi()): Router {
+  const router = express.Router();
+
+  const sendApiResponse = (res: Response, response: ApiResponse<unknown>) => {
+    res.status(response.status).json(response.body);
+  };
+
+  router.use(express.json());
+  router.post('/net-salary', (req, res) => sendApiResponse(res, salaryApi.netSalary(req.body)));
+  router.post('/proposals/by-cost', (req, res) => sendApiResponse(res, salaryApi.proposalsByCost(req.body)));
+  router.post('/proposals/by-net', (req, res) => sendApiResponse(res, salaryApi.proposalsByNet(req.body)));
+  router.use((req, res) => {
+    const error: ApiError = { code: 'not_found', message: `No API endpoint for ${req.method} ${req.originalUrl}.` };
+    res.status(404).json({ error });
+  });
+  router.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    // Corpo que não é JSON válido (rejeitado pelo express.json)
+    if (err instanceof SyntaxError) {
+      const error: ApiError = { code: 'invalid_json', message: 'The request body is not valid JSON.' };
+      res.status(400).json({ error });
+      return;
+    }
+    next(err);
+  });
+
+  return router;
+}
@@ -1,7 +1,9 @@
 import { Routes } from '@angular/router';
 import { SimulatorComponent } from './simulator/simulator.component';
+import { TeamBatchComponent } from './team-batch/team-batch.component';
 
 export const routes: Routes = [
     { path: '', component: SimulatorComponent },
-    { path: 'simulator', component: SimulatorComponent }
+    { path: 'simulator', component: SimulatorComponent },
+    { path: 'equipa', component: TeamBatchComponent }
 ];
@@ -0,0 +1,33 @@
+import { TestBed } from '@angular/core/testing';
+import { CalculateNetSalaryService } from '../services/calculate-net-salary-service.service';
+import { IrsAnnualSettlementService } from '../services/irs-annual-settlement.service';
+import { IRS_DATASET_LOCATIONS, loadIrsDatasets } from './irs-datasets';
+
+describe('loadIrsDatasets', () => {
+  let irsService: CalculateNetSalaryService;
+  let settlementService: IrsAnnualSettlementService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    irsService = TestBed.inject(CalculateNetSalaryService);
+    settlementService = TestBed.inject(IrsAnnualSettlementService);
+  });
+
+  it('should register every bundled dataset', () => {
+    loadIrsDatasets(irsService, settlementService);
+
+    IRS_DATASET_LOCATIONS.forEach((location) => expect(irsService.getDataset(location).meta.region).toBe(location));
+    expect(() => settlementService.estimate({ grossIncome: 30000, socialSecurityPaid: 3300, irsWithheld: 3000, dependents: 0 }))
+      .not.toThrow();
+  });
+
+  it('should throw on a bundled dataset that fails validation', () => {
+    spyOn(irsService, 'setDataset').and.returnValue([
+      { code: 'missing_table', path: 'tables', tableId: 'VII', message: 'Table "VII" is missing.' }
+    ]);
+
+    expect(() => loadIrsDatasets(irsService, settlementService)).toThrowError(
+      'Invalid IRS dataset (continente): Table "VII" is missing.'
+    );
+  });
+});
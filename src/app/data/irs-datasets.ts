@@ -0,0 +1,39 @@
+import { CalculateNetSalaryService, IrsDataset, LocationPT } from '../services/calculate-net-salary-service.service';
+import { IrsAnnualDataset, IrsAnnualSettlementService } from '../services/irs-annual-settlement.service';
+import irsContinente2026 from './irs_2026_continente.json';
+import irsAnnual2026 from './irs_2026_annual.json';
+
+/**
+ * Retention datasets (retenção na fonte) for every supported location.
+ * Registered at startup by loadIrsDatasets.
+ *
+ * Madeira and Açores are left out until their officially published 2026
+ * tables are added here. The 2025 continente tables are not bundled yet
+ * either, so a payment date before 2026 has no dataset (the simulator says so).
+ */
+export const IRS_DATASETS = [
+  irsContinente2026,
+] as unknown as IrsDataset[];
+
+/** Locations with a retention dataset; the others cannot be calculated yet. */
+export const IRS_DATASET_LOCATIONS: LocationPT[] = [...new Set(IRS_DATASETS.map((dataset) => dataset.meta.region))];
+
+/**
+ * Annual brackets and deductions used by IrsAnnualSettlementService.
+ */
+export const IRS_ANNUAL_DATASET = irsAnnual2026 as unknown as IrsAnnualDataset;
+
+/**
+ * Registers the retention and annual datasets with the services that use
+ * them. A bundled dataset that fails validation throws, so bad data fails
+ * the build's tests instead of a user calculation.
+ */
+export function loadIrsDatasets(irsService: CalculateNetSalaryService, settlementService: IrsAnnualSettlementService): void {
+  IRS_DATASETS.forEach((dataset) => {
+    const errors = irsService.setDataset(dataset);
+    if (errors.length > 0) {
+      throw new Error(`Invalid IRS dataset (${dataset.meta.region}): ${errors.map((error) => error.message).join(' ')}`);
+    }
+  });
+  settlementService.setDataset(IRS_ANNUAL_DATASET);
+}
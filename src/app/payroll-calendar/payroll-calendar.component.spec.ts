@@ -0,0 +1,53 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { PayrollCalendarComponent } from './payroll-calendar.component';
+import { PayrollCalendar, PayrollMonth } from '../services/payroll-calendar.service';
+
+describe('PayrollCalendarComponent', () => {
+  let component: PayrollCalendarComponent;
+  let fixture: ComponentFixture<PayrollCalendarComponent>;
+
+  const month = (n: number): PayrollMonth => ({
+    month: n,
+    salary: 1000,
+    subsidies: n === 6 || n === 11 ? 1000 : 0,
+    mealAllowance: 200,
+    mealAllowanceTaxable: 0,
+    gross: 1200,
+    irs: 100,
+    socialSecurity: 110,
+    net: 990,
+    benefits: 0
+  });
+
+  const calendar: PayrollCalendar = {
+    flexBenefitsPercentage: 0,
+    months: Array.from({ length: 12 }, (_, i) => month(i + 1)),
+    totals: { ...month(1), salary: 12000 }
+  };
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [PayrollCalendarComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(PayrollCalendarComponent);
+    component = fixture.componentInstance;
+    component.calendar = calendar;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should show one row per month and the annual totals', () => {
+    const element: HTMLElement = fixture.nativeElement;
+
+    expect(element.querySelectorAll('tbody tr').length).toBe(12);
+    expect(element.querySelector('tfoot')?.textContent).toContain('12 000,00 €');
+    expect(element.textContent).toContain('Subs. Férias');
+    expect(element.textContent).toContain('Subs. Natal');
+  });
+});
@@ -0,0 +1,29 @@
+import { Component, Input } from '@angular/core';
+import { CurrencyPtPipe } from '../pipes/currency-pt.pipe';
+import {
+  CHRISTMAS_SUBSIDY_MONTH,
+  HOLIDAY_SUBSIDY_MONTH,
+  PayrollCalendar,
+} from '../services/payroll-calendar.service';
+
+@Component({
+  selector: 'app-payroll-calendar',
+  standalone: true,
+  imports: [CurrencyPtPipe],
+  templateUrl: './payroll-calendar.component.html',
+  styleUrl: './payroll-calendar.component.scss'
+})
+export class PayrollCalendarComponent {
+  @Input({ required: true }) calendar!: PayrollCalendar;
+
+  readonly monthNames = [
+    'Janeiro', 'Fevereiro', 'Março', 'Abril', 'Maio', 'Junho',
+    'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro',
+  ];
+
+  subsidyLabel(month: number): string {
+    if (month === HOLIDAY_SUBSIDY_MONTH) return 'Subs. Férias';
+    if (month === CHRISTMAS_SUBSIDY_MONTH) return 'Subs. Natal';
+    return '';
+  }
+}
@@ -1,4 +1,5 @@
 import { Pipe, PipeTransform } from '@angular/core';
+import { formatNumberPt } from '../utils/number-format';
 
 /**
  * Pipe para formatar valores monetários no formato português: "1 000,50 €"
@@ -20,16 +21,6 @@ export class CurrencyPtPipe implements PipeTransform {
       return '0,00 €';
     }
 
-    // Formatar com 2 casas decimais
-    const fixed = numValue.toFixed(2);
-    
-    // Separar parte inteira e decimal
-    const [integerPart, decimalPart] = fixed.split('.');
-    
-    // Adicionar espaços como separador de milhares
-    const formattedInteger = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
-    
-    // Juntar com vírgula como separador decimal
-    return `${formattedInteger},${decimalPart} €`;
+    return `${formatNumberPt(numValue)} €`;
   }
 }
@@ -0,0 +1,121 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { ScenariosComponent } from './scenarios.component';
+import { SCENARIOS_STORAGE_KEY, ScenarioService } from '../services/scenario.service';
+import { SimulationResult } from '../services/salary-forward.service';
+import { DEFAULT_COMPANY_PROFILE } from '../services/company-profile';
+import { SimulatorState } from '../simulator/simulator-state';
+
+describe('ScenariosComponent', () => {
+  let component: ScenariosComponent;
+  let fixture: ComponentFixture<ScenariosComponent>;
+
+  const { companyName, ...profile } = DEFAULT_COMPANY_PROFILE;
+  const state: SimulatorState = {
+    ...profile,
+    calculateBy: 'annualCost',
+    annualCost: 30000,
+    targetNetSalary: 2000,
+    grossSalary: 2500,
+    baseSalary: 2000,
+    maritalStatus: 'single',
+    hasDisability: false,
+    location: 'continente',
+    dependents: 0,
+    dependentsWithDisability: 0,
+    paymentDate: '',
+    irsJovemCareerYear: 0,
+    taxRegime: 'standard',
+    subsidyPaymentMode: 'june_november',
+    includeMealAllowance: true,
+    ihtType: 'percentage',
+    IhtPercentage: 25,
+    ihtFixedAmount: 0,
+    ihtCategory: 'unlimited'
+  };
+  const results = (totalMax: number) =>
+    [0, 10].map((flexBenefitsPercentage) => ({ flexBenefitsPercentage, totalMax, warnings: [] }) as unknown as SimulationResult);
+
+  beforeEach(async () => {
+    localStorage.removeItem(SCENARIOS_STORAGE_KEY);
+    await TestBed.configureTestingModule({
+      imports: [ScenariosComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(ScenariosComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  afterEach(() => localStorage.removeItem(SCENARIOS_STORAGE_KEY));
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should save the last calculation under a name and list it', () => {
+    component.state = state;
+    component.results = results(1500);
+    component.name = '30k não casado';
+
+    component.save();
+    fixture.detectChanges();
+
+    expect(component.name).toBe('');
+    expect(component.scenarios.map((s) => s.name)).toEqual(['30k não casado']);
+    expect(fixture.nativeElement.textContent).toContain('30k não casado');
+  });
+
+  it('should ask for a name', () => {
+    component.state = state;
+    component.results = results(1500);
+
+    component.save();
+    expect(component.saveError).toContain('nome');
+    expect(component.scenarios).toEqual([]);
+  });
+
+  it('should compare up to three selected scenarios', () => {
+    const service = TestBed.inject(ScenarioService);
+    const ids = [1500, 1600, 1700, 1800].map((total) => service.save(`${total}`, state, results(total)).id);
+    component.scenarios = service.list();
+
+    component.toggleSelection(ids[0]);
+    expect(component.comparison).toBeUndefined();
+
+    ids.slice(1).forEach((id) => component.toggleSelection(id));
+    expect(component.selectedIds).toEqual(ids.slice(0, 3));
+    expect(component.flexBenefitsPercentages).toEqual([0, 10]);
+
+    const totalMax = component.comparison!.results.find((row) => row.field === 'totalMax')!;
+    expect(totalMax.differences).toEqual([0, 100, 200]);
+
+    fixture.detectChanges();
+    expect(fixture.nativeElement.querySelectorAll('tbody tr').length).toBeGreaterThan(4);
+  });
+
+  it('should drop a deleted scenario from the comparison', () => {
+    const service = TestBed.inject(ScenarioService);
+    const [first, second] = [1500, 1600].map((total) => service.save(`${total}`, state, results(total)));
+    component.scenarios = service.list();
+    component.toggleSelection(first.id);
+    component.toggleSelection(second.id);
+
+    component.delete(second.id);
+    expect(component.selectedIds).toEqual([first.id]);
+    expect(component.comparison).toBeUndefined();
+    expect(component.scenarios.length).toBe(1);
+  });
+
+  it('should emit the scenario to open', () => {
+    const scenario = TestBed.inject(ScenarioService).save('30k', state, results(1500));
+    spyOn(component.scenarioLoad, 'emit');
+
+    component.scenarios = [scenario];
+    fixture.detectChanges();
+    (fixture.nativeElement.querySelector('.btn-outline-secondary') as HTMLButtonElement).click();
+
+    expect(component.scenarioLoad.emit).toHaveBeenCalledWith(scenario);
+  });
+});
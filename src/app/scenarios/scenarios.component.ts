@@ -0,0 +1,99 @@
+import { Component, EventEmitter, Input, Output, inject } from '@angular/core';
+import { DatePipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { CurrencyPtPipe } from '../pipes/currency-pt.pipe';
+import { SimulationResult } from '../services/salary-forward.service';
+import { SavedScenario, SCENARIO_NAME_MAX_LENGTH, ScenarioService } from '../services/scenario.service';
+import {
+  MAX_COMPARED_SCENARIOS,
+  MIN_COMPARED_SCENARIOS,
+  ScenarioComparison,
+  commonFlexBenefitsPercentages,
+  compareScenarios,
+} from '../services/scenario-comparison';
+import { SimulatorState } from '../simulator/simulator-state';
+
+@Component({
+  selector: 'app-scenarios',
+  standalone: true,
+  imports: [FormsModule, DatePipe, CurrencyPtPipe],
+  templateUrl: './scenarios.component.html',
+  styleUrl: './scenarios.component.scss'
+})
+export class ScenariosComponent {
+  // Last calculation, saved as a new scenario
+  @Input() state?: SimulatorState;
+  @Input() results: SimulationResult[] = [];
+  @Output() scenarioLoad = new EventEmitter<SavedScenario>();
+
+  readonly nameMaxLength = SCENARIO_NAME_MAX_LENGTH;
+  readonly maxCompared = MAX_COMPARED_SCENARIOS;
+
+  name = '';
+  saveError = '';
+  scenarios: SavedScenario[];
+  selectedIds: string[] = [];
+  flexBenefitsPercentages: number[] = [];
+  flexBenefitsPercentage = 0;
+  comparison?: ScenarioComparison;
+
+  private readonly scenarioService = inject(ScenarioService);
+
+  constructor() {
+    this.scenarios = this.scenarioService.list();
+  }
+
+  save(): void {
+    if (!this.state) return;
+
+    try {
+      this.scenarioService.save(this.name, this.state, this.results);
+      this.name = '';
+      this.saveError = '';
+    } catch {
+      this.saveError = `Indique um nome com até ${SCENARIO_NAME_MAX_LENGTH} caracteres.`;
+    }
+    this.refresh();
+  }
+
+  delete(id: string): void {
+    this.scenarioService.delete(id);
+    this.selectedIds = this.selectedIds.filter((selected) => selected !== id);
+    this.refresh();
+  }
+
+  isSelected(id: string): boolean {
+    return this.selectedIds.includes(id);
+  }
+
+  /** Adds or removes a scenario from the comparison (at most MAX_COMPARED_SCENARIOS). */
+  toggleSelection(id: string): void {
+    if (this.isSelected(id)) {
+      this.selectedIds = this.selectedIds.filter((selected) => selected !== id);
+    } else if (this.selectedIds.length < MAX_COMPARED_SCENARIOS) {
+      this.selectedIds = [...this.selectedIds, id];
+    }
+    this.updateComparison();
+  }
+
+  updateComparison(): void {
+    const selected = this.selectedIds
+      .map((id) => this.scenarios.find((scenario) => scenario.id === id))
+      .filter((scenario): scenario is SavedScenario => scenario !== undefined);
+
+    this.flexBenefitsPercentages = commonFlexBenefitsPercentages(selected);
+    if (!this.flexBenefitsPercentages.includes(Number(this.flexBenefitsPercentage))) {
+      this.flexBenefitsPercentage = this.flexBenefitsPercentages[0] ?? 0;
+    }
+
+    this.comparison =
+      selected.length >= MIN_COMPARED_SCENARIOS && this.flexBenefitsPercentages.length > 0
+        ? compareScenarios(selected, Number(this.flexBenefitsPercentage))
+        : undefined;
+  }
+
+  private refresh(): void {
+    this.scenarios = this.scenarioService.list();
+    this.updateComparison();
+  }
+}
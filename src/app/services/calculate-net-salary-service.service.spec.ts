@@ -1,5 +1,5 @@
 import { TestBed } from '@angular/core/testing';
-import { CalculateNetSalaryService, IrsInput, MaritalStatus } from './calculate-net-salary-service.service';
+import { CalculateNetSalaryService, IrsDatasetNotFoundError, IrsInput, MaritalStatus } from './calculate-net-salary-service.service';
 import irsData from '../data/irs_2026_continente.json';
 
 describe('CalculateNetSalaryService', () => {
@@ -23,15 +23,16 @@ describe('CalculateNetSalaryService', () => {
     };
 
     describe('Non-Disabled (Sem Deficiência)', () => {
-      it('should return Table I for Single/Married 2 holders with 0 dependents', () => {
+      it('should return Table I for Single with 0 dependents and Married 2 holders (any dependents)', () => {
         expect(getTableId('single', 0)).toBe('I');
         expect(getTableId('married_two_holders', 0)).toBe('I');
+        expect(getTableId('married_two_holders', 1)).toBe('I');
+        expect(getTableId('married_two_holders', 3)).toBe('I');
       });
 
-      it('should return Table II for Single/Married 2 holders with 1+ dependents', () => {
+      it('should return Table II for Single with 1+ dependents', () => {
         expect(getTableId('single', 1)).toBe('II');
         expect(getTableId('single', 3)).toBe('II');
-        expect(getTableId('married_two_holders', 1)).toBe('II');
       });
 
       it('should return Table III for Married 1 holder (any dependents)', () => {
@@ -103,7 +104,324 @@ describe('CalculateNetSalaryService', () => {
       expect(result.irsWithheld).toBe(27.64);
       expect(result.netSalary).toBe(1040.36);
     });
+
+    it('should apply the extra deduction for dependents with disability', () => {
+      const input: IrsInput = {
+        grossSalary: 2500,
+        maritalStatus: 'single',
+        location: 'continente',
+        dependents: 2,
+        dependentsWithDisability: 1
+      };
+      // Table II: IRS = (2500 * 0.3836) - 487.66 - (2 * 34.29) - (1 * 84.82) = 317.94
+      const result = service.calculate(input);
+      expect(result.tableId).toBe('II');
+      expect(result.irsWithheld).toBe(317.94);
+    });
+
+    it('should reject more dependents with disability than dependents', () => {
+      expect(() => service.calculate({
+        grossSalary: 2500,
+        maritalStatus: 'single',
+        location: 'continente',
+        dependents: 1,
+        dependentsWithDisability: 2
+      })).toThrowError('dependentsWithDisability must be an integer between 0 and dependents.');
+    });
+
+    describe('Every table at 2500€', () => {
+      const cases: Array<{ table: string; status: MaritalStatus; deps: number; disability: boolean; irs: number }> = [
+        // 2500 * 0.3836 - 487.66 = 471.34
+        { table: 'I', status: 'single', deps: 0, disability: false, irs: 471.34 },
+        // 2500 * 0.3836 - 487.66 - 2 * 21.43 = 428.48 (casado 2 titulares fica na Tabela I)
+        { table: 'I', status: 'married_two_holders', deps: 2, disability: false, irs: 428.48 },
+        // 2500 * 0.3836 - 487.66 - 34.29 = 437.05
+        { table: 'II', status: 'single', deps: 1, disability: false, irs: 437.05 },
+        // 2500 * 0.2277 - 289.47 = 279.78
+        { table: 'III', status: 'married_one_holder', deps: 0, disability: false, irs: 279.78 },
+        // 2500 * 0.349 - 658.07 = 214.43
+        { table: 'IV', status: 'single', deps: 0, disability: true, irs: 214.43 },
+        // 2500 * 0.311 - 614.96 - 42.86 = 119.68
+        { table: 'V', status: 'single', deps: 1, disability: true, irs: 119.68 },
+        // 2500 * 0.311 - 591.23 - 21.43 = 164.84
+        { table: 'VI', status: 'married_two_holders', deps: 1, disability: true, irs: 164.84 },
+        // 2500 * 0.2277 - 529.41 = 39.84
+        { table: 'VII', status: 'married_one_holder', deps: 0, disability: true, irs: 39.84 },
+      ];
+
+      cases.forEach(({ table, status, deps, disability, irs }) => {
+        it(`should use Table ${table} for ${status}, ${deps} dependents, disability ${disability}`, () => {
+          const result = service.calculate({
+            grossSalary: 2500,
+            maritalStatus: status,
+            location: 'continente',
+            dependents: deps,
+            hasDisability: disability
+          });
+          expect(result.tableId).toBe(table);
+          expect(result.irsWithheld).toBe(irs);
+        });
+      });
+    });
   });
-});
 
+  describe('Regional Datasets (Madeira / Açores)', () => {
+    const input: IrsInput = {
+      grossSalary: 1200,
+      maritalStatus: 'single',
+      location: 'continente',
+      dependents: 0
+    };
+
+    // Test fixture only: the continente tables under another region, with a 0.2 rate on band 5
+    const regionalDataset = (region: string) => ({
+      ...irsData,
+      meta: { ...irsData.meta, region },
+      tables: irsData.tables.map(t => ({
+        ...t,
+        bands: t.bands.map(b => (b.upTo === 1212 ? { ...b, rate: 0.2 } : b))
+      }))
+    });
+
+    it('should throw when the dataset for the location was not set', () => {
+      expect(() => service.calculate({ ...input, location: 'madeira' }))
+        .toThrowError(/location "madeira"/);
+    });
+
+    it('should pick the dataset matching the location', () => {
+      service.setDataset(regionalDataset('madeira') as any);
+
+      // Table I, Band 5: 1200 * 0.2 - 158.18 = 81.82
+      expect(service.calculate({ ...input, location: 'madeira' }).irsWithheld).toBe(81.82);
+      expect(service.calculate(input).irsWithheld).toBe(96.22);
+      expect(() => service.calculate({ ...input, location: 'acores' })).toThrowError(/location "acores"/);
+    });
+  });
+
+  describe('Dataset Registry (validFrom / validTo)', () => {
+    const input: IrsInput = {
+      grossSalary: 1200,
+      maritalStatus: 'single',
+      location: 'continente',
+      dependents: 0
+    };
+
+    // Same tables, but with a 0.2 rate on band 5 and valid during 2025
+    const dataset2025 = {
+      ...irsData,
+      meta: { ...irsData.meta, validFrom: '2025-01-01', validTo: '2025-12-31' },
+      tables: irsData.tables.map(t => ({
+        ...t,
+        bands: t.bands.map(b => (b.upTo === 1212 ? { ...b, rate: 0.2 } : b))
+      }))
+    };
+
+    beforeEach(() => {
+      service.setDataset(dataset2025 as any);
+    });
+
+    it('should pick the dataset valid on the payment date', () => {
+      // 2025: 1200 * 0.2 - 158.18 = 81.82
+      expect(service.calculate({ ...input, paymentDate: '2025-12-31' }).irsWithheld).toBe(81.82);
+      expect(service.calculate({ ...input, paymentDate: new Date(2026, 0, 1) }).irsWithheld).toBe(96.22);
+    });
+
+    it('should use the most recent dataset when no payment date is given', () => {
+      expect(service.calculate(input).irsWithheld).toBe(96.22);
+    });
+
+    it('should prefer the latest mid-year revision when periods overlap', () => {
+      service.setDataset({
+        ...dataset2025,
+        meta: { ...dataset2025.meta, validFrom: '2025-08-01' },
+        tables: irsData.tables
+      } as any);
+
+      expect(service.calculate({ ...input, paymentDate: '2025-07-31' }).irsWithheld).toBe(81.82);
+      expect(service.calculate({ ...input, paymentDate: '2025-08-01' }).irsWithheld).toBe(96.22);
+    });
+
+    it('should not register a dataset that fails validation', () => {
+      const errors = service.setDataset({ ...irsData, meta: { ...irsData.meta, region: 'madeira' }, tables: [] });
+      expect(errors.length).toBe(7); // all seven tables missing
+      expect(() => service.calculate({ ...input, location: 'madeira' })).toThrowError(/location "madeira"/);
+    });
+
+    it('should throw when no dataset is valid on the payment date', () => {
+      expect(() => service.calculate({ ...input, paymentDate: '2024-06-01' }))
+        .toThrowError(/valid on 2024-06-01/);
+      expect(() => service.calculate({ ...input, paymentDate: '2024-06-01' })).toThrowMatching(
+        (error) => error instanceof IrsDatasetNotFoundError && error.code === 'dataset_not_found' && error.date === '2024-06-01'
+      );
+    });
+  });
+
+  describe('Deduction Formulas', () => {
+    const withFormula = (expression: string) => ({
+      ...irsData,
+      tables: irsData.tables.map(t => t.id !== 'II' ? t : {
+        ...t,
+        bands: t.bands.map((b, i) => i === 1 ? { ...b, deduction: { type: 'formula', expression } } : b)
+      })
+    });
+
+    it('should evaluate formula deductions from the dataset', () => {
+      // Table I, Band 2: 1000 * 0.125 - 0.125 * 2.60 * (1273.85 - 1000) = 125 - 89.00 = 36.00
+      const result = service.calculate({
+        grossSalary: 1000,
+        maritalStatus: 'single',
+        location: 'continente',
+        dependents: 0
+      });
+      expect(result.deduction).toBe(89);
+      expect(result.irsWithheld).toBe(36);
+    });
+
+    it('should accept other formula shapes', () => {
+      service.setDataset(withFormula('(1273.85 - R) * 2.60 * 0.125 + 0') as any);
+      const result = service.calculate({
+        grossSalary: 1000,
+        maritalStatus: 'single',
+        location: 'continente',
+        dependents: 1
+      });
+      expect(result.deduction).toBe(89);
+    });
+
+    it('should reject invalid formulas on setDataset, pointing at the table and band', () => {
+      const errors = service.setDataset(withFormula('0.125 * 2.60 * (1273.85 - X)'));
+      expect(errors.length).toBe(1);
+      expect(errors[0]).toEqual(jasmine.objectContaining({
+        code: 'invalid_deduction',
+        path: 'tables[1].bands[1].deduction',
+        tableId: 'II',
+        bandIndex: 1
+      }));
+      expect(errors[0].message).toMatch(/Unexpected character "X"/);
+    });
+  });
+
+  describe('IRS Jovem', () => {
+    const input: IrsInput = {
+      grossSalary: 3000,
+      maritalStatus: 'single',
+      location: 'continente',
+      dependents: 0
+    };
+
+    it('should remove the exempt share before applying the tables', () => {
+      // Year 5: 50% exempt -> R = 1500, Table I band 6: 1500 * 0.241 - 193.33 = 168.17
+      const result = service.calculate({ ...input, irsJovem: { careerYear: 5 } });
+      expect(result.irsJovemExemption).toBe(1500);
+      expect(result.taxableSalary).toBe(1500);
+      expect(result.irsWithheld).toBe(168.17);
+      // SS is still due on the full gross salary
+      expect(result.socialSecurity).toBe(330);
+      expect(result.netSalary).toBe(2501.83);
+    });
+
+    it('should cap the monthly exemption at 55 x IAS / 14', () => {
+      // Year 1: 100% exempt, but limited to 29542.15 / 14 = 2110.15
+      const result = service.calculate({ ...input, irsJovem: { careerYear: 1 } });
+      expect(result.irsJovemExemption).toBe(2110.15);
+      expect(result.taxableSalary).toBe(889.85);
+      expect(result.irsWithheld).toBe(0);
+    });
+
+    it('should reject a year of career outside 1..10', () => {
+      expect(() => service.calculate({ ...input, irsJovem: { careerYear: 11 } }))
+        .toThrowError(/between 1 and 10/);
+    });
+  });
+
+  describe('IFICI Regime (flat 20%)', () => {
+    const input: IrsInput = {
+      grossSalary: 3000,
+      maritalStatus: 'married_one_holder',
+      location: 'continente',
+      dependents: 2,
+      taxRegime: 'ifici'
+    };
+
+    it('should withhold a flat 20% instead of using the tables', () => {
+      const result = service.calculate(input);
+      expect(result.tableId).toBe('IFICI');
+      expect(result.rate).toBe(0.2);
+      expect(result.irsWithheld).toBe(600);
+      expect(result.socialSecurity).toBe(330);
+      expect(result.netSalary).toBe(2070);
+    });
+
+    it('should not be combined with IRS Jovem', () => {
+      expect(() => service.calculate({ ...input, irsJovem: { careerYear: 1 } }))
+        .toThrowError(/IFICI/);
+    });
+  });
+
+  describe('Holiday / Christmas Subsidies', () => {
+    const input: IrsInput = {
+      grossSalary: 2500,
+      maritalStatus: 'single',
+      location: 'continente',
+      dependents: 0
+    };
+
+    it('should withhold a full subsidy like the monthly salary it goes with', () => {
+      // Table I band 2500: 2500 * 0.3836 - 487.66 = 471.34
+      const result = service.calculateSubsidy({ ...input, subsidyAmount: 2500 });
+      expect(result.tableId).toBe('I');
+      expect(result.irsWithheld).toBe(471.34);
+      expect(result.socialSecurity).toBe(275);
+      expect(result.netSubsidy).toBe(1753.66);
+    });
+
+    it('should apply the deductions in proportion to a duodécimo', () => {
+      // (2500 / 12) * 0.3836 - 487.66 / 12 = 39.28, at the rate of the monthly salary
+      const result = service.calculateSubsidy({ ...input, subsidyAmount: 2500 / 12 });
+      expect(result.subsidyAmount).toBe(208.33);
+      expect(result.rate).toBe(0.3836);
+      expect(result.irsWithheld).toBe(39.28);
+      expect(result.socialSecurity).toBe(22.92);
+    });
+
+    it('should apply the dependents deduction in proportion too', () => {
+      // Table III: half of the 194.06 withheld on the 2500 salary
+      const result = service.calculateSubsidy({ ...input, maritalStatus: 'married_one_holder', dependents: 2, subsidyAmount: 1250 });
+      expect(result.tableId).toBe('III');
+      expect(result.irsWithheld).toBe(97.03);
+    });
+
+    it('should exempt the IRS Jovem share of the subsidy', () => {
+      const result = service.calculateSubsidy({ ...input, grossSalary: 3000, irsJovem: { careerYear: 5 }, subsidyAmount: 3000 });
+      expect(result.irsJovemExemption).toBe(1500);
+      expect(result.irsWithheld).toBe(168.17);
+    });
+
+    it('should reject a negative subsidy', () => {
+      expect(() => service.calculateSubsidy({ ...input, subsidyAmount: -1 }))
+        .toThrowError(/subsidyAmount/);
+    });
+  });
+
+  describe('Band Limits', () => {
+    const input = { maritalStatus: 'single' as MaritalStatus, location: 'continente' as const, dependents: 0 };
+
+    it('should list the upper limit of every band of the table', () => {
+      expect(service.getBandLimits(input)).toEqual([920, 1042, 1108, 1154, 1212, 1819, 2119, 2499, 3305, 5547, 20221]);
+    });
+
+    it('should move the limits up by the IRS Jovem exemption and add its cap', () => {
+      // Year 5: 50% exempt up to 2110.15 / month -> R = gross / 2 below 4220.31, gross - 2110.15 above
+      const limits = service.getBandLimits({ ...input, irsJovem: { careerYear: 5 } });
+      expect(limits.slice(0, 2)).toEqual([1840, 2084]);
+      expect(limits[6]).toBeCloseTo(4220.31, 2);
+      expect(limits[7]).toBeCloseTo(4229.15, 2);
+      expect(limits.length).toBe(12);
+    });
+
+    it('should have no limits under IFICI', () => {
+      expect(service.getBandLimits({ ...input, taxRegime: 'ifici' })).toEqual([]);
+    });
+  });
+});
 
@@ -1,11 +1,17 @@
 // src/app/services/irs-withholding.service.ts
 import { Injectable } from '@angular/core';
+import { compileDeductionFormula, DeductionFormula } from './deduction-formula';
+import { IrsDatasetValidationError, validateIrsDataset } from './irs-dataset-validator';
+import { IrsJovem, IRS_JOVEM_MONTHLY_CAP, irsJovemExemptShare, irsJovemExemption } from './irs-jovem';
 
 /**
  * ✅ Drop-in Angular service to calculate:
- * - IRS withholding (retenção na fonte) using your JSON tables (Continent 2026)
+ * - IRS withholding (retenção na fonte) using your JSON tables (Continente 2026; one dataset per region)
  * - Social Security (11% default)
  * - Net salary (gross - IRS - SS)
+ * - IRS Jovem: the exempt share of income is removed before the tables are applied
+ * - IFICI (ex-NHR): flat 20% withholding instead of the tables
+ * - Holiday / Christmas subsidies (and their duodécimos), withheld on their own
  *
  * Assumes your JSON matches the structure you posted earlier:
  * {
@@ -15,10 +21,18 @@ import { Injectable } from '@angular/core';
  *
  * Important:
  * - This calculates *retention tables* withholding, not yearly IRS settlement.
- * - Location is validated but only "continente" is supported by this dataset.
+ * - Datasets are kept in a registry and picked by IrsInput.location (meta.region)
+ *   and IrsInput.paymentDate (meta.validFrom / meta.validTo).
  */
 
 export type LocationPT = 'continente' | 'madeira' | 'acores';
+export type TaxRegime =
+  | 'standard'               // tabelas de retenção
+  | 'ifici';                 // IFICI / ex-RNH, taxa especial de 20%
+
+/** Flat rate of the IFICI regime (art. 72.º, n.º 10 CIRS). */
+export const IFICI_RATE = 0.2;
+
 export type MaritalStatus =
   | 'single'                 // não casado
   | 'married_one_holder'     // casado, único titular
@@ -29,12 +43,18 @@ export interface IrsInput {
   maritalStatus: MaritalStatus;
   location: LocationPT;
   dependents: number;
+  dependentsWithDisability?: number; // how many of the dependents have a disability (>= 60%)
   hasDisability?: boolean;
   socialSecurityRate?: number;   // default 0.11
+  paymentDate?: string | Date;   // picks the dataset valid on this date (default: latest)
+  irsJovem?: IrsJovem;           // IRS Jovem regime (year of career 1..10)
+  taxRegime?: TaxRegime;         // default 'standard'
 }
 
 export interface IrsResult {
   tableId: string;
+  taxableSalary: number;         // R used in the tables (gross - IRS Jovem exemption)
+  irsJovemExemption: number;
   band: Band;
   rate: number;
   deduction: number;
@@ -44,6 +64,25 @@ export interface IrsResult {
   netSalary: number;
 }
 
+/**
+ * A holiday or Christmas subsidy (or a duodécimo of one). "grossSalary" is
+ * the monthly remuneration of the month it is paid with, which sets the rate.
+ */
+export interface SubsidyInput extends IrsInput {
+  subsidyAmount: number;
+}
+
+export interface SubsidyResult {
+  tableId: string;
+  subsidyAmount: number;
+  taxableSubsidy: number;        // subsidy - IRS Jovem exemption
+  irsJovemExemption: number;
+  rate: number;
+  irsWithheld: number;
+  socialSecurity: number;
+  netSubsidy: number;
+}
+
 type Deduction =
   | number
   | { type: 'formula'; expression: string };
@@ -52,7 +91,7 @@ export interface Band {
   upTo?: number;                 // inclusive upper bound
   over?: number;                 // lower bound (exclusive / "superior a")
   rate: number;                  // e.g. 0.157
-  deduction: Deduction;          // number OR formula expression "a * b * (c - R)"
+  deduction: Deduction;          // number OR arithmetic formula over R, e.g. "a * b * (c - R)"
   additionalPerDependent?: number;
   effectiveRateAtLimit?: number | null;
   notes?: string;
@@ -61,12 +100,13 @@ export interface Band {
 export interface IrsDataset {
   meta: {
     country: 'PT';
-    region: 'continente';
+    region: LocationPT;
     validFrom: string;
     validTo: string;
     period: 'monthly';
     unit: 'EUR';
   };
+  additionalPerDisabledDependent: number; // extra deduction per dependent with disability, as published
   tables: Array<{
     id: string; // I..VII
     name: string;
@@ -77,6 +117,22 @@ export interface IrsDataset {
   }>;
 }
 
+/**
+ * Thrown when no registered dataset of the location is valid on the payment
+ * date. The fields let the UI explain it in its own language.
+ */
+export class IrsDatasetNotFoundError extends Error {
+  readonly code = 'dataset_not_found';
+
+  constructor(
+    readonly location: LocationPT,
+    readonly date: string,
+  ) {
+    super(`No IRS dataset for location "${location}" valid on ${date}.`);
+    this.name = 'IrsDatasetNotFoundError';
+  }
+}
+
 @Injectable({ providedIn: 'root' })
 export class CalculateNetSalaryService {
   /**
@@ -85,28 +141,71 @@ export class CalculateNetSalaryService {
    *   private readonly data: IrsDataset = dataset as IrsDataset;
    *
    * Or inject via constructor. For simplicity this is a setter.
+   * Every call adds the dataset to a registry (one per region and validity
+   * period, e.g. 2025, 2026 and mid-year revisions). A dataset with the same
+   * region and validFrom replaces the previous one.
+   * The dataset is validated first (see irs-dataset-validator.ts): an invalid
+   * one is not registered and the list of validation errors is returned,
+   * so a malformed JSON fails at load time instead of during a user calculation.
    */
-  private data?: IrsDataset;
+  private datasets: IrsDataset[] = [];
+  private formulas = new Map<string, DeductionFormula>();
+
+  setDataset(data: unknown): IrsDatasetValidationError[] {
+    const errors = validateIrsDataset(data);
+    if (errors.length > 0) return errors;
 
-  setDataset(dataset: IrsDataset) {
-    this.data = dataset;
+    const dataset = data as IrsDataset;
+    this.compileFormulas(dataset);
+    this.datasets = [
+      ...this.datasets.filter(
+        d => d.meta.region !== dataset.meta.region || d.meta.validFrom !== dataset.meta.validFrom
+      ),
+      dataset,
+    ];
+    return [];
   }
 
-  calculate(input: IrsInput): IrsResult {
-    // Passo 1: Verificar se os dados das tabelas de IRS foram carregados
-    if (!this.data) {
-      throw new Error('IRS dataset not set. Call setDataset(dataset) once at app startup.');
+  /**
+   * Returns the dataset for the location that is valid on the payment date.
+   * When several overlap (mid-year revisions) the one with the latest validFrom wins.
+   * Without a payment date the most recent dataset of the location is used.
+   */
+  getDataset(location: LocationPT, paymentDate?: string | Date): IrsDataset {
+    const candidates = this.datasets
+      .filter(d => d.meta.region === location)
+      .sort((a, b) => b.meta.validFrom.localeCompare(a.meta.validFrom));
+
+    if (candidates.length === 0) {
+      throw new Error(`IRS dataset for location "${location}" not set. Call setDataset(dataset) once at app startup.`);
+    }
+    if (paymentDate === undefined) return candidates[0];
+
+    const date = this.toIsoDate(paymentDate);
+    const dataset = candidates.find(d => d.meta.validFrom <= date && date <= d.meta.validTo);
+    if (!dataset) {
+      throw new IrsDatasetNotFoundError(location, date);
     }
+    return dataset;
+  }
 
+  calculate(input: IrsInput): IrsResult {
     const {
       grossSalary,
       maritalStatus,
       location,
       dependents,
+      dependentsWithDisability = 0,
       hasDisability = false,
       socialSecurityRate = 0.11,
+      paymentDate,
+      irsJovem,
+      taxRegime = 'standard',
     } = input;
 
+    // Passo 1: Escolher as tabelas de IRS da localização em vigor na data de pagamento
+    const data = this.getDataset(location, paymentDate);
+
     // Passo 2: Validar os dados de entrada
     if (grossSalary <= 0 || !Number.isFinite(grossSalary)) {
       throw new Error('grossSalary must be a positive number.');
@@ -114,40 +213,56 @@ export class CalculateNetSalaryService {
     if (dependents < 0 || !Number.isInteger(dependents)) {
       throw new Error('dependents must be an integer >= 0.');
     }
-    if (location !== 'continente') {
-      // O dataset fornecido é explicitamente para o "continente 2026"
-      throw new Error(`Location "${location}" not supported by this dataset (continente only).`);
+    if (!Number.isInteger(dependentsWithDisability) || dependentsWithDisability < 0 || dependentsWithDisability > dependents) {
+      throw new Error('dependentsWithDisability must be an integer between 0 and dependents.');
+    }
+    if (taxRegime === 'ifici') {
+      if (irsJovem) {
+        throw new Error('IRS Jovem cannot be combined with the IFICI regime.');
+      }
+      // No regime IFICI não se usam as tabelas: taxa fixa sobre o salário bruto
+      return this.calculateFlatRate(grossSalary, socialSecurityRate);
     }
 
     // Passo 3: Determinar qual a tabela de IRS a aplicar (I a VII) com base no estado civil e dependentes
     const tableId = this.pickTableId(maritalStatus, dependents, hasDisability);
-    const table = this.data.tables.find(t => t.id === tableId);
+    const table = data.tables.find(t => t.id === tableId);
     if (!table) throw new Error(`Table "${tableId}" not found in dataset.`);
 
-    // Passo 4: Encontrar o escalão (band) correspondente ao salário bruto
-    const band = this.pickBand(table.bands, grossSalary);
+    // Passo 4: IRS Jovem - retirar a parte isenta do rendimento antes de aplicar as tabelas
+    const exemption = irsJovem ? irsJovemExemption(grossSalary, irsJovem, IRS_JOVEM_MONTHLY_CAP) : 0;
+    const taxableSalary = grossSalary - exemption;
+
+    // Passo 5: Encontrar o escalão (band) correspondente ao rendimento sujeito (R)
+    const band = this.pickBand(table.bands, taxableSalary);
     const rate = band.rate;
     const additionalPerDependent = band.additionalPerDependent ?? 0;
     
-    // Passo 5: Calcular a parcela a abater (dedução)
-    const deduction = this.resolveDeduction(band.deduction, grossSalary);
+    // Passo 6: Calcular a parcela a abater (dedução)
+    const deduction = this.resolveDeduction(band.deduction, taxableSalary);
 
-    // Passo 6: Aplicar a fórmula de retenção na fonte de IRS
-    // Fórmula: (Salário Bruto * Taxa) - Parcela a Abater - (Dedução por Dependente * Número de Dependentes)
+    // Passo 7: Aplicar a fórmula de retenção na fonte de IRS
+    // Fórmula: (R * Taxa) - Parcela a Abater - (Dedução por Dependente * Número de Dependentes)
+    //          - (Dedução por Dependente com Deficiência * Número de Dependentes com Deficiência)
     const irsRaw =
-      grossSalary * rate - deduction - additionalPerDependent * dependents;
+      taxableSalary * rate -
+      deduction -
+      additionalPerDependent * dependents -
+      data.additionalPerDisabledDependent * dependentsWithDisability;
 
-    // Passo 7: Garantir que o IRS não é negativo e arredondar
+    // Passo 8: Garantir que o IRS não é negativo e arredondar
     const irsWithheld = this.round2(Math.max(0, irsRaw)); 
 
-    // Passo 8: Calcular a Segurança Social (tipicamente 11% para o trabalhador)
+    // Passo 9: Calcular a Segurança Social sobre o salário bruto total (tipicamente 11% para o trabalhador)
     const socialSecurity = this.round2(grossSalary * socialSecurityRate);
 
-    // Passo 9: Calcular o salário líquido final
+    // Passo 10: Calcular o salário líquido final
     const netSalary = this.round2(grossSalary - irsWithheld - socialSecurity);
 
     return {
       tableId,
+      taxableSalary: this.round2(taxableSalary),
+      irsJovemExemption: this.round2(exemption),
       band,
       rate,
       deduction: this.round2(deduction),
@@ -158,6 +273,112 @@ export class CalculateNetSalaryService {
     };
   }
 
+  /**
+   * Retenção autónoma dos subsídios de férias e de Natal (art. 99.º-C, n.º 3 CIRS).
+   *
+   * The subsidy is never added to the salary of the month: it uses the table
+   * and band of the monthly remuneration (R), with the deductions (parcela a
+   * abater, dependents) in proportion to the subsidy:
+   *   IRS = S * taxa - (parcela a abater + deduções por dependente) * S / R
+   * The same applies to each duodécimo when the subsidies are paid monthly.
+   */
+  calculateSubsidy(input: SubsidyInput): SubsidyResult {
+    const { subsidyAmount, ...monthly } = input;
+    const socialSecurityRate = monthly.socialSecurityRate ?? 0.11;
+
+    // Passo 1: Validar o valor do subsídio
+    if (subsidyAmount < 0 || !Number.isFinite(subsidyAmount)) {
+      throw new Error('subsidyAmount must be a number >= 0.');
+    }
+
+    // Passo 2: Retenção do mês de referência (tabela, escalão e parcela a abater de R)
+    const reference = this.calculate(monthly);
+
+    // Passo 3: IRS Jovem - a parte isenta do subsídio segue a proporção do mês
+    const taxableShare = reference.taxableSalary / monthly.grossSalary;
+    const taxableSubsidy = subsidyAmount * taxableShare;
+
+    // Passo 4: Aplicar a taxa e as deduções proporcionais ao subsídio
+    let irsRaw = taxableSubsidy * reference.rate;
+    if (reference.tableId !== 'IFICI' && reference.taxableSalary > 0) {
+      const data = this.getDataset(monthly.location, monthly.paymentDate);
+      const deductions =
+        reference.deduction +
+        reference.additionalPerDependent * monthly.dependents +
+        data.additionalPerDisabledDependent * (monthly.dependentsWithDisability ?? 0);
+      irsRaw -= deductions * (taxableSubsidy / reference.taxableSalary);
+    }
+
+    // Passo 5: Arredondar e calcular a Segurança Social sobre o subsídio completo
+    const irsWithheld = this.round2(Math.max(0, irsRaw));
+    const socialSecurity = this.round2(subsidyAmount * socialSecurityRate);
+
+    return {
+      tableId: reference.tableId,
+      subsidyAmount: this.round2(subsidyAmount),
+      taxableSubsidy: this.round2(taxableSubsidy),
+      irsJovemExemption: this.round2(subsidyAmount - taxableSubsidy),
+      rate: reference.rate,
+      irsWithheld,
+      socialSecurity,
+      netSubsidy: this.round2(subsidyAmount - irsWithheld - socialSecurity),
+    };
+  }
+
+  /**
+   * Monthly gross salaries (ascending) where the withholding of "calculate"
+   * changes formula: the upper limit of each band of the table, moved up by
+   * the IRS Jovem exemption, and the salary where that exemption reaches its
+   * cap. Between two limits the withholding is linear in the gross salary
+   * (apart from the floor at 0). None under IFICI, a flat rate.
+   */
+  getBandLimits(input: Omit<IrsInput, 'grossSalary'>): number[] {
+    const { maritalStatus, location, dependents, hasDisability = false, paymentDate, irsJovem, taxRegime = 'standard' } = input;
+    if (taxRegime === 'ifici') return [];
+
+    // Passo 1: Tabela aplicada, como em calculate()
+    const data = this.getDataset(location, paymentDate);
+    const tableId = this.pickTableId(maritalStatus, dependents, hasDisability);
+    const table = data.tables.find(t => t.id === tableId);
+    if (!table) throw new Error(`Table "${tableId}" not found in dataset.`);
+
+    const taxableLimits = table.bands
+      .map(b => b.upTo)
+      .filter((upTo): upTo is number => typeof upTo === 'number');
+    if (!irsJovem) return [...new Set(taxableLimits)].sort((a, b) => a - b);
+
+    // Passo 2: IRS Jovem - R = bruto × (1 - parte isenta) até ao limite da isenção, depois R = bruto - limite
+    const share = irsJovemExemptShare(irsJovem.careerYear);
+    const capSalary = IRS_JOVEM_MONTHLY_CAP / share;
+    const capTaxable = capSalary - IRS_JOVEM_MONTHLY_CAP;
+    const limits = taxableLimits.map(R =>
+      R < capTaxable ? R / (1 - share) : R + IRS_JOVEM_MONTHLY_CAP,
+    );
+    return [...new Set([...limits, capSalary])].sort((a, b) => a - b);
+  }
+
+  /**
+   * IFICI (successor of the NHR regime): flat IFICI_RATE rate on the gross
+   * salary, no deductions and no per-dependent deduction.
+   */
+  private calculateFlatRate(grossSalary: number, socialSecurityRate: number): IrsResult {
+    const irsWithheld = this.round2(grossSalary * IFICI_RATE);
+    const socialSecurity = this.round2(grossSalary * socialSecurityRate);
+
+    return {
+      tableId: 'IFICI',
+      taxableSalary: this.round2(grossSalary),
+      irsJovemExemption: 0,
+      band: { rate: IFICI_RATE, deduction: 0 },
+      rate: IFICI_RATE,
+      deduction: 0,
+      additionalPerDependent: 0,
+      irsWithheld,
+      socialSecurity,
+      netSalary: this.round2(grossSalary - irsWithheld - socialSecurity),
+    };
+  }
+
   /**
    * Maps your UI params to the table id (I..VII)
    * Based on the tables you pasted.
@@ -174,7 +395,8 @@ export class CalculateNetSalaryService {
       return dependents >= 1 ? 'V' : 'IV';
     } else {
       if (maritalStatus === 'married_one_holder') return 'III';
-      // single OR married_two_holders share I/II logic
+      // Tabela I: casado 2 titulares com ou sem dependentes; a II é só para não casados com dependentes
+      if (maritalStatus === 'married_two_holders') return 'I';
       return dependents >= 1 ? 'II' : 'I';
     }
   }
@@ -209,39 +431,59 @@ export class CalculateNetSalaryService {
     return overBand;
   }
 
+  /**
+   * Compiles every formula deduction of an already validated dataset once,
+   * so resolveDeduction only evaluates them.
+   */
+  private compileFormulas(dataset: IrsDataset): void {
+    for (const table of dataset.tables) {
+      for (const band of table.bands) {
+        if (typeof band.deduction !== 'number' && !this.formulas.has(band.deduction.expression)) {
+          this.formulas.set(band.deduction.expression, compileDeductionFormula(band.deduction.expression));
+        }
+      }
+    }
+  }
+
   /**
    * Supports:
    * - number deduction (e.g., 94.71)
-   * - formula deduction strings like:
-   *   "0.125 * 2.60 * (1273.85 - R)"
-   *
-   * If your JSON uses the expression format from my mapping, this works.
+   * - formula deductions: any arithmetic expression over R and numbers,
+   *   e.g. "0.125 * 2.60 * (1273.85 - R)" (see deduction-formula.ts)
    */
   private resolveDeduction(deduction: Deduction, R: number): number {
     if (typeof deduction === 'number') return deduction;
 
     if (deduction?.type === 'formula') {
-      const expr = deduction.expression.replace(/\s+/g, '');
-
-      // Pattern: a*b*(c-R)
-      const m = expr.match(/^([0-9.]+)\*([0-9.]+)\*\(([0-9.]+)-R\)$/i);
-      if (!m) {
-        throw new Error(`Unsupported deduction formula expression: ${deduction.expression}`);
+      let formula = this.formulas.get(deduction.expression);
+      if (!formula) {
+        formula = compileDeductionFormula(deduction.expression);
+        this.formulas.set(deduction.expression, formula);
       }
-
-      const a = Number(m[1]);
-      const b = Number(m[2]);
-      const c = Number(m[3]);
-      if (![a, b, c].every(n => Number.isFinite(n))) {
-        throw new Error(`Invalid numbers in deduction formula: ${deduction.expression}`);
-      }
-
-      return a * b * (c - R);
+      return formula(R);
     }
 
     throw new Error('Invalid deduction field.');
   }
 
+  /**
+   * Normalizes a payment date to "YYYY-MM-DD" so it compares with meta.validFrom/validTo.
+   */
+  private toIsoDate(date: string | Date): string {
+    if (typeof date === 'string') {
+      if (!/^\d{4}-\d{2}-\d{2}/.test(date)) {
+        throw new Error(`paymentDate must be an ISO date (YYYY-MM-DD), got "${date}".`);
+      }
+      return date.slice(0, 10);
+    }
+    if (Number.isNaN(date.getTime())) {
+      throw new Error('paymentDate is an invalid Date.');
+    }
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  }
+
   private round2(n: number): number {
     return Math.round((n + Number.EPSILON) * 100) / 100;
   }
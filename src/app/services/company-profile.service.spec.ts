@@ -0,0 +1,103 @@
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { COMPANY_PROFILE_STORAGE_KEY, CompanyProfileService } from './company-profile.service';
+import { DEFAULT_COMPANY_PROFILE, companyProfileParameters, validateCompanyProfile } from './company-profile';
+
+describe('CompanyProfileService', () => {
+  afterEach(() => localStorage.removeItem(COMPANY_PROFILE_STORAGE_KEY));
+
+  function createService(platformId = 'browser'): CompanyProfileService {
+    TestBed.configureTestingModule({ providers: [{ provide: PLATFORM_ID, useValue: platformId }] });
+    return TestBed.inject(CompanyProfileService);
+  }
+
+  it('should start with the default profile', () => {
+    expect(createService().get()).toEqual(DEFAULT_COMPANY_PROFILE);
+  });
+
+  it('should persist a saved profile in localStorage', () => {
+    const profile = { ...DEFAULT_COMPANY_PROFILE, tsu: 22.3, maxFlexBenefitsPercentage: 20 };
+
+    expect(createService().save(profile)).toEqual([]);
+    expect(JSON.parse(localStorage.getItem(COMPANY_PROFILE_STORAGE_KEY)!)).toEqual(profile);
+  });
+
+  it('should load the stored profile, filling missing fields with defaults', () => {
+    localStorage.setItem(COMPANY_PROFILE_STORAGE_KEY, JSON.stringify({ tsu: 22.3 }));
+
+    expect(createService().get()).toEqual({ ...DEFAULT_COMPANY_PROFILE, tsu: 22.3 });
+  });
+
+  it('should ignore a corrupted stored profile', () => {
+    localStorage.setItem(COMPANY_PROFILE_STORAGE_KEY, '{not json');
+
+    expect(createService().get()).toEqual(DEFAULT_COMPANY_PROFILE);
+  });
+
+  it('should not save an invalid profile', () => {
+    const service = createService();
+    const errors = service.save({ ...DEFAULT_COMPANY_PROFILE, flexBenefitsStep: 0 });
+
+    expect(errors).toEqual(['invalid_flex_benefits_step']);
+    expect(service.get()).toEqual(DEFAULT_COMPANY_PROFILE);
+    expect(localStorage.getItem(COMPANY_PROFILE_STORAGE_KEY)).toBeNull();
+  });
+
+  it('should reset to the defaults', () => {
+    const service = createService();
+    service.save({ ...DEFAULT_COMPANY_PROFILE, tsu: 22.3 });
+
+    expect(service.reset()).toEqual(DEFAULT_COMPANY_PROFILE);
+    expect(JSON.parse(localStorage.getItem(COMPANY_PROFILE_STORAGE_KEY)!)).toEqual(DEFAULT_COMPANY_PROFILE);
+  });
+
+  it('should not touch localStorage on the server', () => {
+    localStorage.setItem(COMPANY_PROFILE_STORAGE_KEY, JSON.stringify({ tsu: 22.3 }));
+    const service = createService('server');
+
+    expect(service.get()).toEqual(DEFAULT_COMPANY_PROFILE);
+    service.save({ ...DEFAULT_COMPANY_PROFILE, tsu: 10 });
+    expect(JSON.parse(localStorage.getItem(COMPANY_PROFILE_STORAGE_KEY)!).tsu).toBe(22.3);
+  });
+
+  describe('validateCompanyProfile', () => {
+    it('should accept the default profile', () => {
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE })).toEqual([]);
+    });
+
+    it('should reject an inverted flexible benefits range', () => {
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE, minFlexBenefitsPercentage: 40 }))
+        .toEqual(['inverted_flex_benefits_range']);
+    });
+
+    it('should keep the flexible benefits share below 100%', () => {
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE, maxFlexBenefitsPercentage: 99.9 })).toEqual([]);
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE, maxFlexBenefitsPercentage: 100 }))
+        .toEqual(['invalid_flex_benefits_percentage']);
+    });
+
+    it('should reject out of range rates', () => {
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE, tsu: -1, employeeSocialSecurityRate: NaN }))
+        .toEqual(['invalid_tsu', 'invalid_employee_social_security_rate']);
+    });
+
+    it('should limit the company name length', () => {
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE, companyName: 'Empresa, Lda.' })).toEqual([]);
+      expect(validateCompanyProfile({ ...DEFAULT_COMPANY_PROFILE, companyName: 'x'.repeat(101) }).length).toBe(1);
+    });
+  });
+
+  it('should map the profile to proposal parameters', () => {
+    expect(companyProfileParameters({ ...DEFAULT_COMPANY_PROFILE, employeeSocialSecurityRate: 10 })).toEqual({
+      tsu: 23.75,
+      ssRate: 0.1,
+      mealAllowanceDaily: 10.22,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      mealAllowancePaymentMethod: 'card',
+      minFlexBenefitsPercentage: 0,
+      maxFlexBenefitsPercentage: 30,
+      flexBenefitsStep: 5,
+    });
+  });
+});
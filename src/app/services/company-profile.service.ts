@@ -0,0 +1,60 @@
+import { Injectable, PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { CompanyProfile, CompanyProfileErrorCode, DEFAULT_COMPANY_PROFILE, validateCompanyProfile } from './company-profile';
+
+export const COMPANY_PROFILE_STORAGE_KEY = 'salary-simulator.company-profile';
+
+/** The simulator's company profile (see company-profile.ts), kept in localStorage. */
+@Injectable({ providedIn: 'root' })
+export class CompanyProfileService {
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  private profile: CompanyProfile = this.load();
+
+  get(): CompanyProfile {
+    return { ...this.profile };
+  }
+
+  /**
+   * Stores the profile when it is valid; returns the validation errors otherwise.
+   */
+  save(profile: CompanyProfile): CompanyProfileErrorCode[] {
+    const errors = validateCompanyProfile(profile);
+    if (errors.length > 0) return errors;
+
+    this.profile = { ...profile };
+    this.write(this.profile);
+    return [];
+  }
+
+  reset(): CompanyProfile {
+    this.profile = { ...DEFAULT_COMPANY_PROFILE };
+    this.write(this.profile);
+    return this.get();
+  }
+
+  private load(): CompanyProfile {
+    // No localStorage on the server (SSR / prerender)
+    if (!this.isBrowser) return { ...DEFAULT_COMPANY_PROFILE };
+
+    try {
+      const stored = localStorage.getItem(COMPANY_PROFILE_STORAGE_KEY);
+      if (!stored) return { ...DEFAULT_COMPANY_PROFILE };
+
+      // Fields missing from older versions fall back to the defaults
+      const profile = { ...DEFAULT_COMPANY_PROFILE, ...JSON.parse(stored) } as CompanyProfile;
+      return validateCompanyProfile(profile).length === 0 ? profile : { ...DEFAULT_COMPANY_PROFILE };
+    } catch {
+      return { ...DEFAULT_COMPANY_PROFILE };
+    }
+  }
+
+  private write(profile: CompanyProfile): void {
+    if (!this.isBrowser) return;
+
+    try {
+      localStorage.setItem(COMPANY_PROFILE_STORAGE_KEY, JSON.stringify(profile));
+    } catch {
+      // Storage full or disabled: the profile still applies to this session
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { ProposalParameters } from './salary-forward.service';
+import { MEAL_ALLOWANCE_EXEMPT_LIMITS, MealAllowancePaymentMethod } from './meal-allowance';
+
+/**
+ * Employer cost parameters used by both calculation directions.
+ *
+ * Edited in the simulator's "Configurações" panel and kept in localStorage,
+ * so a company with a reduced TSU regime, a different meal allowance or its
+ * own flexible benefits policy only has to set them once.
+ */
+
+export interface CompanyProfile {
+  companyName: string;                  // shown on the offer letters
+  tsu: number;                          // % paid by the company, e.g. 23.75 (regime geral)
+  employeeSocialSecurityRate: number;   // % paid by the worker, e.g. 11 (regime geral)
+  mealAllowanceDaily: number;
+  mealAllowanceDays: number;            // working days per month
+  mealAllowanceMonths: number;          // months with meal allowance per year
+  mealAllowancePaymentMethod: MealAllowancePaymentMethod; // sets the exempt daily limit
+  minFlexBenefitsPercentage: number;
+  maxFlexBenefitsPercentage: number;
+  flexBenefitsStep: number;
+}
+
+export const DEFAULT_COMPANY_PROFILE: Readonly<CompanyProfile> = {
+  companyName: '',
+  tsu: 23.75,
+  employeeSocialSecurityRate: 11,
+  mealAllowanceDaily: 10.22,
+  mealAllowanceDays: 22,
+  mealAllowanceMonths: 11,
+  mealAllowancePaymentMethod: 'card',
+  minFlexBenefitsPercentage: 0,
+  maxFlexBenefitsPercentage: 30,
+  flexBenefitsStep: 5,
+};
+
+export const COMPANY_NAME_MAX_LENGTH = 100;
+
+/** Flexible benefits share limit, not included: at 100% there is no salary left to calculate. */
+export const FLEX_BENEFITS_PERCENTAGE_LIMIT = 100;
+
+/** What is wrong with a company profile; the simulator explains each one in Portuguese. */
+export type CompanyProfileErrorCode =
+  | 'invalid_company_name'
+  | 'invalid_tsu'
+  | 'invalid_employee_social_security_rate'
+  | 'invalid_meal_allowance_daily'
+  | 'invalid_meal_allowance_days'
+  | 'invalid_meal_allowance_months'
+  | 'invalid_meal_allowance_payment_method'
+  | 'invalid_flex_benefits_percentage'
+  | 'inverted_flex_benefits_range'
+  | 'invalid_flex_benefits_step';
+
+export function validateCompanyProfile(profile: CompanyProfile): CompanyProfileErrorCode[] {
+  const errors: CompanyProfileErrorCode[] = [];
+  const inRange = (value: number, min: number, max: number) =>
+    typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+  if (typeof profile.companyName !== 'string' || profile.companyName.length > COMPANY_NAME_MAX_LENGTH) {
+    errors.push('invalid_company_name');
+  }
+  if (!inRange(profile.tsu, 0, 100)) {
+    errors.push('invalid_tsu');
+  }
+  if (!inRange(profile.employeeSocialSecurityRate, 0, 100)) {
+    errors.push('invalid_employee_social_security_rate');
+  }
+  if (!inRange(profile.mealAllowanceDaily, 0, Number.MAX_VALUE)) {
+    errors.push('invalid_meal_allowance_daily');
+  }
+  if (!inRange(profile.mealAllowanceDays, 0, 31)) {
+    errors.push('invalid_meal_allowance_days');
+  }
+  if (!inRange(profile.mealAllowanceMonths, 0, 12)) {
+    errors.push('invalid_meal_allowance_months');
+  }
+  if (!Object.keys(MEAL_ALLOWANCE_EXEMPT_LIMITS).includes(profile.mealAllowancePaymentMethod)) {
+    errors.push('invalid_meal_allowance_payment_method');
+  }
+  const isFlexBenefitsPercentage = (value: number) => inRange(value, 0, 100) && value < FLEX_BENEFITS_PERCENTAGE_LIMIT;
+  if (!isFlexBenefitsPercentage(profile.minFlexBenefitsPercentage) || !isFlexBenefitsPercentage(profile.maxFlexBenefitsPercentage)) {
+    errors.push('invalid_flex_benefits_percentage');
+  } else if (profile.minFlexBenefitsPercentage > profile.maxFlexBenefitsPercentage) {
+    errors.push('inverted_flex_benefits_range');
+  }
+  if (!inRange(profile.flexBenefitsStep, Number.MIN_VALUE, 100)) {
+    errors.push('invalid_flex_benefits_step');
+  }
+
+  return errors;
+}
+
+/** The part of the proposal parameters that comes from the company profile. */
+export function companyProfileParameters(
+  profile: CompanyProfile,
+): Pick<
+  ProposalParameters,
+  | 'tsu'
+  | 'ssRate'
+  | 'mealAllowanceDaily'
+  | 'mealAllowanceDays'
+  | 'mealAllowanceMonths'
+  | 'mealAllowancePaymentMethod'
+  | 'minFlexBenefitsPercentage'
+  | 'maxFlexBenefitsPercentage'
+  | 'flexBenefitsStep'
+> {
+  return {
+    tsu: profile.tsu,
+    ssRate: profile.employeeSocialSecurityRate / 100,
+    mealAllowanceDaily: profile.mealAllowanceDaily,
+    mealAllowanceDays: profile.mealAllowanceDays,
+    mealAllowanceMonths: profile.mealAllowanceMonths,
+    mealAllowancePaymentMethod: profile.mealAllowancePaymentMethod,
+    minFlexBenefitsPercentage: profile.minFlexBenefitsPercentage,
+    maxFlexBenefitsPercentage: profile.maxFlexBenefitsPercentage,
+    flexBenefitsStep: profile.flexBenefitsStep,
+  };
+}
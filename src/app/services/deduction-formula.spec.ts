@@ -0,0 +1,45 @@
+import { compileDeductionFormula } from './deduction-formula';
+
+describe('compileDeductionFormula', () => {
+  it('should evaluate the AT shape "a * b * (c - R)"', () => {
+    const formula = compileDeductionFormula('0.125 * 2.60 * (1273.85 - R)');
+    // 0.125 * 2.60 * (1273.85 - 1000) = 89.00125
+    expect(formula(1000)).toBeCloseTo(89.00125, 8);
+  });
+
+  it('should support R on the left, extra constants and nested parentheses', () => {
+    expect(compileDeductionFormula('(R - 1000) * 0.5 + 10')(1200)).toBe(110);
+    expect(compileDeductionFormula('0.157 * (1.35 * ((1554.83 - R) + 2))')(1554.83)).toBeCloseTo(0.4239, 8);
+    expect(compileDeductionFormula('100 - R / 4')(200)).toBe(50);
+  });
+
+  it('should respect operator precedence and unary minus', () => {
+    expect(compileDeductionFormula('2 + 3 * 4')(0)).toBe(14);
+    expect(compileDeductionFormula('-R + 10')(4)).toBe(6);
+    expect(compileDeductionFormula('2 * -(R - 1)')(3)).toBe(-4);
+  });
+
+  it('should accept lower case r', () => {
+    expect(compileDeductionFormula('r * 2')(21)).toBe(42);
+  });
+
+  it('should reject identifiers, function calls and other characters', () => {
+    expect(() => compileDeductionFormula('Math.max(R, 1)')).toThrowError(/Unexpected character "M"/);
+    expect(() => compileDeductionFormula('R ** 2')).toThrowError(/Unexpected "\*" at position 3/);
+    expect(() => compileDeductionFormula('R; alert(1)')).toThrowError(/Unexpected character ";"/);
+  });
+
+  it('should reject malformed expressions', () => {
+    expect(() => compileDeductionFormula('')).toThrowError(/empty/);
+    expect(() => compileDeductionFormula('(1273.85 - R')).toThrowError(/Missing "\)"/);
+    expect(() => compileDeductionFormula('1273.85 - R)')).toThrowError(/Unexpected "\)"/);
+    expect(() => compileDeductionFormula('0.125 *')).toThrowError(/Unexpected end/);
+    expect(() => compileDeductionFormula('1.2.3 * R')).toThrowError(/Unexpected "\.3"/);
+  });
+
+  it('should throw when the result is not finite', () => {
+    const formula = compileDeductionFormula('1 / (R - 1000)');
+    expect(formula(900)).toBe(-0.01);
+    expect(() => formula(1000)).toThrowError(/not finite for R = 1000/);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Safe arithmetic evaluator for the "parcela a abater" formulas of the
+ * retention tables, e.g. "0.125 * 2.60 * (1273.85 - R)".
+ *
+ * Supported grammar (no identifiers other than R, no function calls):
+ *   expression := term (('+' | '-') term)*
+ *   term       := factor (('*' | '/') factor)*
+ *   factor     := ('+' | '-') factor | number | 'R' | '(' expression ')'
+ *
+ * Expressions are parsed once into a tree and evaluated for each R,
+ * so nothing is ever passed to eval / new Function.
+ */
+
+export type DeductionFormula = (R: number) => number;
+
+type Node =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable' }
+  | { kind: 'negate'; operand: Node }
+  | { kind: 'binary'; operator: '+' | '-' | '*' | '/'; left: Node; right: Node };
+
+interface Token {
+  type: 'number' | 'variable' | 'operator' | 'paren';
+  text: string;
+  position: number;
+}
+
+export function compileDeductionFormula(expression: string): DeductionFormula {
+  const tokens = tokenize(expression);
+  const parser = new Parser(expression, tokens);
+  const tree = parser.parse();
+
+  return (R: number) => {
+    const value = evaluate(tree, R);
+    if (!Number.isFinite(value)) {
+      throw new Error(`Deduction formula "${expression}" is not finite for R = ${R}.`);
+    }
+    return value;
+  };
+}
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9.]/.test(char)) {
+      const match = /^(\d+(\.\d*)?|\.\d+)/.exec(expression.slice(i));
+      if (!match) {
+        throw new Error(`Invalid number at position ${i} in "${expression}".`);
+      }
+      tokens.push({ type: 'number', text: match[0], position: i });
+      i += match[0].length;
+    } else if (char === 'R' || char === 'r') {
+      tokens.push({ type: 'variable', text: 'R', position: i });
+      i++;
+    } else if ('+-*/'.includes(char)) {
+      tokens.push({ type: 'operator', text: char, position: i });
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: 'paren', text: char, position: i });
+      i++;
+    } else {
+      throw new Error(`Unexpected character "${char}" at position ${i} in "${expression}".`);
+    }
+  }
+
+  if (tokens.length === 0) {
+    throw new Error('Deduction formula is empty.');
+  }
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly expression: string,
+    private readonly tokens: Token[],
+  ) {}
+
+  parse(): Node {
+    const node = this.parseExpression();
+    const extra = this.peek();
+    if (extra) {
+      throw this.error(`Unexpected "${extra.text}"`, extra);
+    }
+    return node;
+  }
+
+  private parseExpression(): Node {
+    let node = this.parseTerm();
+    let token = this.peek();
+    while (token?.type === 'operator' && (token.text === '+' || token.text === '-')) {
+      this.index++;
+      node = { kind: 'binary', operator: token.text, left: node, right: this.parseTerm() };
+      token = this.peek();
+    }
+    return node;
+  }
+
+  private parseTerm(): Node {
+    let node = this.parseFactor();
+    let token = this.peek();
+    while (token?.type === 'operator' && (token.text === '*' || token.text === '/')) {
+      this.index++;
+      node = { kind: 'binary', operator: token.text, left: node, right: this.parseFactor() };
+      token = this.peek();
+    }
+    return node;
+  }
+
+  private parseFactor(): Node {
+    const token = this.tokens[this.index++];
+    if (!token) {
+      throw new Error(`Unexpected end of deduction formula "${this.expression}".`);
+    }
+
+    switch (token.type) {
+      case 'number':
+        return { kind: 'number', value: Number(token.text) };
+      case 'variable':
+        return { kind: 'variable' };
+      case 'operator':
+        if (token.text === '-') return { kind: 'negate', operand: this.parseFactor() };
+        if (token.text === '+') return this.parseFactor();
+        throw this.error(`Unexpected "${token.text}"`, token);
+      case 'paren': {
+        if (token.text === ')') throw this.error('Unexpected ")"', token);
+        const node = this.parseExpression();
+        const closing = this.tokens[this.index++];
+        if (closing?.text !== ')') {
+          throw new Error(`Missing ")" for "(" at position ${token.position} in "${this.expression}".`);
+        }
+        return node;
+      }
+    }
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private error(message: string, token: Token): Error {
+    return new Error(`${message} at position ${token.position} in "${this.expression}".`);
+  }
+}
+
+function evaluate(node: Node, R: number): number {
+  switch (node.kind) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return R;
+    case 'negate':
+      return -evaluate(node.operand, R);
+    case 'binary': {
+      const left = evaluate(node.left, R);
+      const right = evaluate(node.right, R);
+      switch (node.operator) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+      }
+    }
+  }
+}
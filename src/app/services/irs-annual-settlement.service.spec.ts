@@ -0,0 +1,91 @@
+import { TestBed } from '@angular/core/testing';
+import { IrsAnnualSettlementService, IrsAnnualDataset } from './irs-annual-settlement.service';
+import irsAnnualData from '../data/irs_2026_annual.json';
+
+describe('IrsAnnualSettlementService', () => {
+  let service: IrsAnnualSettlementService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    service = TestBed.inject(IrsAnnualSettlementService);
+    service.setDataset(irsAnnualData as IrsAnnualDataset);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should throw when the dataset was not set', () => {
+    const fresh = new IrsAnnualSettlementService();
+    expect(() => fresh.estimate({ grossIncome: 1000, socialSecurityPaid: 0, irsWithheld: 0, dependents: 0 }))
+      .toThrowError(/dataset not set/);
+  });
+
+  it('should apply the specific deduction and the progressive brackets (refund)', () => {
+    // Taxable: 30000 - 4587.09 = 25412.91
+    // 8342 * 12.5% + 4245 * 15.7% + 5251 * 21.2% + 5251 * 24.1% + 2323.91 * 31.1% = 4810.65
+    const result = service.estimate({ grossIncome: 30000, socialSecurityPaid: 3300, irsWithheld: 5000, dependents: 0 });
+
+    expect(result.specificDeduction).toBe(4587.09);
+    expect(result.taxableIncome).toBe(25412.91);
+    expect(result.irsDue).toBe(4810.65);
+    expect(result.balance).toBe(189.35);
+    expect(result.outcome).toBe('refund');
+  });
+
+  it('should deduct 600€ per dependent from the tax (payment)', () => {
+    const result = service.estimate({ grossIncome: 30000, socialSecurityPaid: 3300, irsWithheld: 3000, dependents: 2 });
+
+    expect(result.dependentsDeduction).toBe(1200);
+    expect(result.irsDue).toBe(3610.65);
+    expect(result.balance).toBe(-610.65);
+    expect(result.outcome).toBe('payment');
+  });
+
+  it('should use the SS contributions as specific deduction when higher', () => {
+    const result = service.estimate({ grossIncome: 100000, socialSecurityPaid: 11000, irsWithheld: 31557.73, dependents: 0 });
+
+    expect(result.specificDeduction).toBe(11000);
+    // Solidarity surcharge: (89000 - 80000) * 2.5% = 225
+    expect(result.solidaritySurcharge).toBe(225);
+    expect(result.irsDue).toBe(31557.73);
+    expect(result.outcome).toBe('none');
+  });
+
+  it('should not leave less than the "mínimo de existência" after tax', () => {
+    const result = service.estimate({ grossIncome: 13000, socialSecurityPaid: 1430, irsWithheld: 0, dependents: 0 });
+
+    // 13000 - 12880 = 120
+    expect(result.irsDue).toBe(120);
+    expect(result.minimumExistenceRelief).toBe(933.88);
+  });
+
+  it('should exempt the IRS Jovem share before the specific deduction', () => {
+    // Year 2: 75% of 30000 exempt = 22500 -> 7500 - 4587.09 = 2912.91 taxable -> 364.11
+    const result = service.estimate({
+      grossIncome: 30000,
+      socialSecurityPaid: 3300,
+      irsWithheld: 0,
+      dependents: 0,
+      irsJovem: { careerYear: 2 }
+    });
+
+    expect(result.irsJovemExemption).toBe(22500);
+    expect(result.taxableIncome).toBe(2912.91);
+    expect(result.irsDue).toBe(364.11);
+  });
+
+  it('should tax the net income at the IFICI flat rate', () => {
+    // 42000 - 4620 (SS) = 37380 * 20% = 7476
+    const result = service.estimate({
+      grossIncome: 42000,
+      socialSecurityPaid: 4620,
+      irsWithheld: 8400,
+      dependents: 0,
+      taxRegime: 'ifici'
+    });
+
+    expect(result.irsDue).toBe(7476);
+    expect(result.balance).toBe(924);
+  });
+});
@@ -0,0 +1,183 @@
+import { Injectable } from '@angular/core';
+import { IrsJovem, IRS_JOVEM_ANNUAL_CAP, irsJovemExemption } from './irs-jovem';
+import { IFICI_RATE, TaxRegime } from './calculate-net-salary-service.service';
+
+/**
+ * Annual IRS settlement (liquidação) estimator.
+ *
+ * The monthly withholding from CalculateNetSalaryService is only an advance.
+ * This service estimates the yearly assessment for category A income:
+ * - IRS Jovem exemption (capped at 55 x IAS)
+ * - specific deduction (or the SS contributions, when higher)
+ * - progressive annual brackets (or the IFICI flat 20% rate) + solidarity surcharge
+ * - per-dependent deduction on the tax
+ * - "mínimo de existência" safeguard
+ * and compares it with the withholding already made (refund vs payment).
+ *
+ * Important:
+ * - Individual taxation only (no joint filing / quociente conjugal).
+ * - Deductions for health, education, housing, etc. are not considered,
+ *   so the real refund is usually a bit higher.
+ */
+
+export interface AnnualBracket {
+  upTo?: number;                 // inclusive upper bound
+  over?: number;                 // lower bound (exclusive)
+  rate: number;                  // marginal rate, e.g. 0.157
+}
+
+export interface IrsAnnualDataset {
+  meta: {
+    country: 'PT';
+    year: number;
+    period: 'annual';
+    unit: 'EUR';
+  };
+  brackets: AnnualBracket[];
+  solidaritySurcharge: AnnualBracket[];
+  specificDeduction: number;
+  dependentDeduction: number;
+  minimumExistence: number;
+}
+
+export interface AnnualSettlementInput {
+  grossIncome: number;           // annual category A income (incl. subsidies)
+  socialSecurityPaid: number;    // annual employee SS contributions
+  irsWithheld: number;           // annual sum of the monthly withholding
+  dependents: number;
+  irsJovem?: IrsJovem;
+  taxRegime?: TaxRegime;         // default 'standard'
+}
+
+export type SettlementOutcome = 'refund' | 'payment' | 'none';
+
+export interface AnnualSettlementResult {
+  grossIncome: number;
+  irsJovemExemption: number;
+  specificDeduction: number;
+  taxableIncome: number;
+  grossTax: number;              // coleta (brackets + solidarity surcharge)
+  solidaritySurcharge: number;
+  dependentsDeduction: number;
+  minimumExistenceRelief: number;
+  irsDue: number;
+  irsWithheld: number;
+  balance: number;               // > 0 refund, < 0 payment
+  outcome: SettlementOutcome;
+  effectiveRate: number;         // irsDue / grossIncome
+}
+
+@Injectable({ providedIn: 'root' })
+export class IrsAnnualSettlementService {
+  private data?: IrsAnnualDataset;
+
+  setDataset(dataset: IrsAnnualDataset) {
+    this.data = dataset;
+  }
+
+  estimate(input: AnnualSettlementInput): AnnualSettlementResult {
+    // Passo 1: Verificar se os escalões anuais foram carregados
+    if (!this.data) {
+      throw new Error('IRS annual dataset not set. Call setDataset(dataset) once at app startup.');
+    }
+
+    const {
+      grossIncome,
+      socialSecurityPaid,
+      irsWithheld,
+      dependents,
+      irsJovem,
+      taxRegime = 'standard',
+    } = input;
+
+    // Passo 2: Validar os dados de entrada
+    if (grossIncome < 0 || !Number.isFinite(grossIncome)) {
+      throw new Error('grossIncome must be a number >= 0.');
+    }
+    if (socialSecurityPaid < 0 || !Number.isFinite(socialSecurityPaid)) {
+      throw new Error('socialSecurityPaid must be a number >= 0.');
+    }
+    if (irsWithheld < 0 || !Number.isFinite(irsWithheld)) {
+      throw new Error('irsWithheld must be a number >= 0.');
+    }
+    if (dependents < 0 || !Number.isInteger(dependents)) {
+      throw new Error('dependents must be an integer >= 0.');
+    }
+    if (taxRegime === 'ifici' && irsJovem) {
+      throw new Error('IRS Jovem cannot be combined with the IFICI regime.');
+    }
+
+    // Passo 3: IRS Jovem - parte do rendimento isenta
+    const exemption = irsJovem ? irsJovemExemption(grossIncome, irsJovem, IRS_JOVEM_ANNUAL_CAP) : 0;
+    const incomeSubjectToTax = grossIncome - exemption;
+
+    // Passo 4: Dedução específica (o maior entre o valor legal e as contribuições para a SS)
+    const specificDeduction = Math.min(
+      incomeSubjectToTax,
+      Math.max(this.data.specificDeduction, socialSecurityPaid),
+    );
+
+    // Passo 5: Rendimento coletável
+    const taxableIncome = incomeSubjectToTax - specificDeduction;
+
+    // Passo 6: Coleta pelos escalões progressivos (ou taxa especial IFICI) + taxa adicional de solidariedade
+    const bracketsTax = taxRegime === 'ifici'
+      ? taxableIncome * IFICI_RATE
+      : this.applyBrackets(this.data.brackets, taxableIncome);
+    const solidaritySurcharge = this.applyBrackets(this.data.solidaritySurcharge, taxableIncome);
+    const grossTax = bracketsTax + solidaritySurcharge;
+
+    // Passo 7: Deduções à coleta por dependente
+    const dependentsDeduction = Math.min(grossTax, this.data.dependentDeduction * dependents);
+    const taxAfterDeductions = grossTax - dependentsDeduction;
+
+    // Passo 8: Mínimo de existência - o rendimento líquido de imposto não pode ficar abaixo dele
+    const maxTax = Math.max(0, grossIncome - this.data.minimumExistence);
+    const irsDue = Math.min(taxAfterDeductions, maxTax);
+    const minimumExistenceRelief = taxAfterDeductions - irsDue;
+
+    // Passo 9: Comparar com a retenção na fonte já efetuada
+    const balance = this.round2(irsWithheld - irsDue);
+    const outcome: SettlementOutcome = balance > 0 ? 'refund' : balance < 0 ? 'payment' : 'none';
+
+    return {
+      grossIncome: this.round2(grossIncome),
+      irsJovemExemption: this.round2(exemption),
+      specificDeduction: this.round2(specificDeduction),
+      taxableIncome: this.round2(taxableIncome),
+      grossTax: this.round2(grossTax),
+      solidaritySurcharge: this.round2(solidaritySurcharge),
+      dependentsDeduction: this.round2(dependentsDeduction),
+      minimumExistenceRelief: this.round2(minimumExistenceRelief),
+      irsDue: this.round2(irsDue),
+      irsWithheld: this.round2(irsWithheld),
+      balance,
+      outcome,
+      effectiveRate: grossIncome > 0 ? irsDue / grossIncome : 0,
+    };
+  }
+
+  /**
+   * Applies marginal rates slice by slice: each bracket taxes only the part
+   * of the income between its lower bound and its "upTo".
+   */
+  private applyBrackets(brackets: AnnualBracket[], income: number): number {
+    let tax = 0;
+    let lowerBound = 0;
+
+    for (const bracket of brackets) {
+      const from = bracket.over ?? lowerBound;
+      const to = bracket.upTo ?? Number.POSITIVE_INFINITY;
+      if (income > from) {
+        tax += (Math.min(income, to) - from) * bracket.rate;
+      }
+      lowerBound = to;
+    }
+
+    return tax;
+  }
+
+  private round2(n: number): number {
+    return Math.round((n + Number.EPSILON) * 100) / 100;
+  }
+}
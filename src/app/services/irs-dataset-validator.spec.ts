@@ -0,0 +1,83 @@
+import { validateIrsDataset } from './irs-dataset-validator';
+import irsData from '../data/irs_2026_continente.json';
+
+describe('validateIrsDataset', () => {
+  // Deep copy so each test can break the dataset freely
+  const copy = (): any => JSON.parse(JSON.stringify(irsData));
+
+  it('should accept the bundled 2026 dataset', () => {
+    expect(validateIrsDataset(irsData)).toEqual([]);
+  });
+
+  it('should reject anything that is not an object', () => {
+    expect(validateIrsDataset(null)[0].code).toBe('invalid_structure');
+    expect(validateIrsDataset([])[0].code).toBe('invalid_structure');
+  });
+
+  it('should validate meta region and validity dates', () => {
+    const dataset = copy();
+    dataset.meta.region = 'lisboa';
+    dataset.meta.validFrom = '2026-13';
+    dataset.meta.validTo = '2025-12-31';
+
+    const paths = validateIrsDataset(dataset).map(e => e.path);
+    expect(paths).toEqual(['meta.region', 'meta.validFrom']);
+  });
+
+  it('should report missing and duplicated tables', () => {
+    const dataset = copy();
+    dataset.tables = dataset.tables.filter((t: any) => t.id !== 'V');
+    dataset.tables[0].id = 'II';
+
+    const errors = validateIrsDataset(dataset);
+    expect(errors).toContain(jasmine.objectContaining({ code: 'duplicate_table', tableId: 'II' }));
+    expect(errors).toContain(jasmine.objectContaining({ code: 'missing_table', tableId: 'I' }));
+    expect(errors).toContain(jasmine.objectContaining({ code: 'missing_table', tableId: 'V' }));
+  });
+
+  it('should report bands that are not monotonic or overlap', () => {
+    const dataset = copy();
+    dataset.tables[0].bands[3].upTo = 1000; // previous band ends at 1108
+
+    expect(validateIrsDataset(dataset)).toEqual([jasmine.objectContaining({
+      code: 'bands_not_monotonic',
+      path: 'tables[0].bands[3].upTo',
+      tableId: 'I',
+      bandIndex: 3
+    })]);
+  });
+
+  it('should require exactly one open-ended "over" band starting at the last "upTo"', () => {
+    const noOver = copy();
+    noOver.tables[0].bands.pop();
+    expect(validateIrsDataset(noOver)).toEqual([jasmine.objectContaining({ code: 'open_band', tableId: 'I' })]);
+
+    const gap = copy();
+    gap.tables[2].bands[11].over = 21000;
+    expect(validateIrsDataset(gap)).toEqual([jasmine.objectContaining({
+      code: 'bands_not_monotonic',
+      path: 'tables[2].bands[11].over'
+    })]);
+
+    const bothLimits = copy();
+    bothLimits.tables[0].bands[0].over = 0;
+    expect(validateIrsDataset(bothLimits)[0].code).toBe('invalid_band_limit');
+  });
+
+  it('should reject insane rates and deductions', () => {
+    const dataset = copy();
+    dataset.tables[3].bands[1].rate = 21.2;
+    dataset.tables[3].bands[2].deduction = '563.37';
+    dataset.tables[3].bands[3].additionalPerDependent = -1;
+
+    const codes = validateIrsDataset(dataset).map(e => `${e.code}@${e.bandIndex}`);
+    expect(codes).toEqual(['invalid_rate@1', 'invalid_deduction@2', 'invalid_deduction@3']);
+  });
+
+  it('should require the published deduction per dependent with disability', () => {
+    const dataset = copy();
+    delete dataset.additionalPerDisabledDependent;
+
+    expect(validateIrsDataset(dataset).map(e => e.path)).toEqual(['additionalPerDisabledDependent']);
+  });
+});
@@ -0,0 +1,214 @@
+import { compileDeductionFormula } from './deduction-formula';
+
+/**
+ * Structural validation of an IrsDataset (see calculate-net-salary-service.service.ts).
+ *
+ * Every problem found is reported (not just the first), with the JSON path
+ * and, when it applies, the table id and band index, so whoever maintains
+ * the JSON files can fix them in one go.
+ */
+
+export type IrsDatasetValidationCode =
+  | 'invalid_structure'
+  | 'invalid_meta'
+  | 'missing_table'
+  | 'duplicate_table'
+  | 'invalid_band_limit'
+  | 'bands_not_monotonic'
+  | 'open_band'
+  | 'invalid_rate'
+  | 'invalid_deduction';
+
+export interface IrsDatasetValidationError {
+  code: IrsDatasetValidationCode;
+  path: string;        // e.g. "tables[1].bands[3].rate"
+  message: string;
+  tableId?: string;
+  bandIndex?: number;
+}
+
+export const IRS_TABLE_IDS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'] as const;
+
+const REGIONS = ['continente', 'madeira', 'acores'];
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_RATE = 0.6;
+
+export function validateIrsDataset(dataset: unknown): IrsDatasetValidationError[] {
+  const errors: IrsDatasetValidationError[] = [];
+
+  if (!isObject(dataset)) {
+    return [{ code: 'invalid_structure', path: '', message: 'Dataset must be an object.' }];
+  }
+
+  validateMeta(dataset['meta'], errors);
+
+  const additionalPerDisabledDependent = dataset['additionalPerDisabledDependent'];
+  // Valor publicado com as tabelas: sem ele a dedução seria 0 sem aviso
+  if (!isNonNegative(additionalPerDisabledDependent)) {
+    errors.push({
+      code: 'invalid_deduction',
+      path: 'additionalPerDisabledDependent',
+      message: 'additionalPerDisabledDependent must be the published amount (a non-negative number).',
+    });
+  }
+
+  const tables = dataset['tables'];
+  if (!Array.isArray(tables)) {
+    errors.push({ code: 'invalid_structure', path: 'tables', message: 'tables must be an array.' });
+    return errors;
+  }
+
+  const seen = new Set<string>();
+  tables.forEach((table, index) => {
+    const path = `tables[${index}]`;
+    if (!isObject(table) || typeof table['id'] !== 'string') {
+      errors.push({ code: 'invalid_structure', path, message: 'Table must be an object with a string id.' });
+      return;
+    }
+
+    const tableId = table['id'];
+    if (seen.has(tableId)) {
+      errors.push({ code: 'duplicate_table', path: `${path}.id`, tableId, message: `Table "${tableId}" is defined more than once.` });
+    }
+    seen.add(tableId);
+
+    validateBands(table['bands'], tableId, path, errors);
+  });
+
+  for (const id of IRS_TABLE_IDS) {
+    if (!seen.has(id)) {
+      errors.push({ code: 'missing_table', path: 'tables', tableId: id, message: `Table "${id}" is missing.` });
+    }
+  }
+
+  return errors;
+}
+
+function validateMeta(meta: unknown, errors: IrsDatasetValidationError[]): void {
+  if (!isObject(meta)) {
+    errors.push({ code: 'invalid_meta', path: 'meta', message: 'meta must be an object.' });
+    return;
+  }
+
+  if (!REGIONS.includes(meta['region'] as string)) {
+    errors.push({ code: 'invalid_meta', path: 'meta.region', message: `meta.region must be one of ${REGIONS.join(', ')}.` });
+  }
+
+  const isDate = (value: unknown): value is string => typeof value === 'string' && ISO_DATE.test(value);
+  const validFrom = meta['validFrom'];
+  const validTo = meta['validTo'];
+  for (const [key, value] of [['validFrom', validFrom], ['validTo', validTo]]) {
+    if (!isDate(value)) {
+      errors.push({ code: 'invalid_meta', path: `meta.${key}`, message: `meta.${key} must be a date in YYYY-MM-DD format.` });
+    }
+  }
+  if (isDate(validFrom) && isDate(validTo) && validFrom > validTo) {
+    errors.push({ code: 'invalid_meta', path: 'meta.validTo', message: 'meta.validTo must not be before meta.validFrom.' });
+  }
+}
+
+/**
+ * Bands must be listed in ascending order: "upTo" limits strictly increasing,
+ * then exactly one open-ended "over" band, last, starting at the last "upTo".
+ */
+function validateBands(
+  bands: unknown,
+  tableId: string,
+  tablePath: string,
+  errors: IrsDatasetValidationError[],
+): void {
+  if (!Array.isArray(bands) || bands.length === 0) {
+    errors.push({ code: 'invalid_structure', path: `${tablePath}.bands`, tableId, message: `Table "${tableId}" must have a non-empty bands array.` });
+    return;
+  }
+
+  let previousUpTo = 0;
+  let overBands = 0;
+
+  bands.forEach((band, bandIndex) => {
+    const path = `${tablePath}.bands[${bandIndex}]`;
+    const push = (code: IrsDatasetValidationCode, field: string, message: string) =>
+      errors.push({ code, path: field ? `${path}.${field}` : path, tableId, bandIndex, message: `Table "${tableId}" bands[${bandIndex}]: ${message}` });
+
+    if (!isObject(band)) {
+      push('invalid_structure', '', 'band must be an object.');
+      return;
+    }
+
+    const lowerLimit = previousUpTo;
+    const upTo = band['upTo'];
+    const over = band['over'];
+    if ((upTo === undefined) === (over === undefined)) {
+      push('invalid_band_limit', '', 'band must have exactly one of "upTo" or "over".');
+    } else if (upTo !== undefined) {
+      if (!isNonNegative(upTo)) {
+        push('invalid_band_limit', 'upTo', '"upTo" must be a non-negative number.');
+      } else {
+        if (upTo <= previousUpTo && bandIndex > 0) {
+          push('bands_not_monotonic', 'upTo', `"upTo" (${upTo}) must be greater than the previous band limit (${previousUpTo}).`);
+        }
+        if (overBands > 0) {
+          push('open_band', 'upTo', 'bands after the open-ended "over" band are not allowed.');
+        }
+        previousUpTo = upTo;
+      }
+    } else {
+      overBands++;
+      if (!isNonNegative(over)) {
+        push('invalid_band_limit', 'over', '"over" must be a non-negative number.');
+      } else if (over !== previousUpTo) {
+        push('bands_not_monotonic', 'over', `"over" (${over}) must equal the last "upTo" (${previousUpTo}).`);
+      }
+    }
+
+    const rate = band['rate'];
+    if (typeof rate !== 'number' || !Number.isFinite(rate) || rate < 0 || rate > MAX_RATE) {
+      push('invalid_rate', 'rate', `rate must be a number between 0 and ${MAX_RATE}.`);
+    }
+
+    const additionalPerDependent = band['additionalPerDependent'];
+    if (additionalPerDependent !== undefined && !isNonNegative(additionalPerDependent)) {
+      push('invalid_deduction', 'additionalPerDependent', 'additionalPerDependent must be a non-negative number.');
+    }
+
+    const deductionError = validateDeduction(band['deduction'], lowerLimit, isNonNegative(upTo) ? upTo : lowerLimit);
+    if (deductionError) {
+      push('invalid_deduction', 'deduction', deductionError);
+    }
+  });
+
+  if (overBands !== 1) {
+    errors.push({
+      code: 'open_band',
+      path: `${tablePath}.bands`,
+      tableId,
+      message: `Table "${tableId}" must have exactly one open-ended "over" band (found ${overBands}).`,
+    });
+  }
+}
+
+function validateDeduction(deduction: unknown, lowerLimit: number, upperLimit: number): string | null {
+  if (typeof deduction === 'number') {
+    return Number.isFinite(deduction) ? null : 'deduction must be a finite number.';
+  }
+  if (!isObject(deduction) || deduction['type'] !== 'formula' || typeof deduction['expression'] !== 'string') {
+    return 'deduction must be a number or { type: "formula", expression }.';
+  }
+
+  try {
+    const formula = compileDeductionFormula(deduction['expression']);
+    formula(lowerLimit);
+    formula(upperLimit);
+    return null;
+  } catch (error) {
+    return `invalid deduction formula: ${(error as Error).message}`;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNonNegative(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
@@ -0,0 +1,39 @@
+/**
+ * IRS Jovem (art. 12.º-B CIRS, regime from 2025 onwards).
+ *
+ * Young workers are exempt on a share of their category A income during the
+ * first 10 years of income after finishing their studies:
+ * - year 1: 100%
+ * - years 2-4: 75%
+ * - years 5-7: 50%
+ * - years 8-10: 25%
+ * The exempt amount is capped at 55 x IAS per year.
+ */
+
+export interface IrsJovem {
+  careerYear: number;            // 1..10
+}
+
+/** Indexante dos Apoios Sociais (2026). */
+export const IAS = 537.13;
+
+export const IRS_JOVEM_ANNUAL_CAP = 55 * IAS;
+
+/** Monthly cap used for withholding: the annual cap spread over 14 payments. */
+export const IRS_JOVEM_MONTHLY_CAP = IRS_JOVEM_ANNUAL_CAP / 14;
+
+const EXEMPT_SHARE_BY_YEAR = [1, 0.75, 0.75, 0.75, 0.5, 0.5, 0.5, 0.25, 0.25, 0.25];
+
+export function irsJovemExemptShare(careerYear: number): number {
+  if (!Number.isInteger(careerYear) || careerYear < 1 || careerYear > EXEMPT_SHARE_BY_YEAR.length) {
+    throw new Error('irsJovem.careerYear must be an integer between 1 and 10.');
+  }
+  return EXEMPT_SHARE_BY_YEAR[careerYear - 1];
+}
+
+/**
+ * Exempt part of the income for the given year of career, limited to the cap.
+ */
+export function irsJovemExemption(income: number, irsJovem: IrsJovem, cap: number): number {
+  return Math.min(income * irsJovemExemptShare(irsJovem.careerYear), cap);
+}
@@ -0,0 +1,47 @@
+/**
+ * Labour law minimums checked on every proposal (Código do Trabalho).
+ *
+ * - Retribuição mínima mensal garantida (2026): 920 €. The autonomous regions
+ *   set their own, higher, minimums; the national value is used everywhere.
+ * - Isenção de horário de trabalho (art. 265.º): unless a collective agreement
+ *   says otherwise, the IHT pay cannot be lower than
+ *   - "sem sujeição aos limites máximos": 1 hour of overtime per working day
+ *   - "alargamento do período normal": 2 hours of overtime per week
+ *   - "observância dos períodos normais": no legal minimum
+ *   Overtime on a working day (art. 268.º) is paid +25% for the first hour and
+ *   +37.5% for the following ones.
+ */
+
+export type IhtCategory = 'unlimited' | 'extended_hours' | 'normal_period';
+
+export const MINIMUM_WAGE = 920;
+
+const WEEKLY_HOURS = 40;
+const WORKING_DAYS_PER_WEEK = 5;
+const WEEKS_PER_YEAR = 52;
+const FIRST_OVERTIME_HOUR = 1.25;
+const NEXT_OVERTIME_HOURS = 1.375;
+
+/** Hourly pay (art. 271.º): (monthly base * 12) / (52 * weekly hours). */
+export function hourlyPay(monthlyBaseSalary: number): number {
+  return (monthlyBaseSalary * 12) / (WEEKS_PER_YEAR * WEEKLY_HOURS);
+}
+
+/**
+ * Lowest monthly IHT pay allowed by law for the category.
+ */
+export function ihtLegalMinimum(monthlyBaseSalary: number, category: IhtCategory): number {
+  const hourly = hourlyPay(monthlyBaseSalary);
+  switch (category) {
+    case 'unlimited': {
+      const workingDaysPerMonth = (WEEKS_PER_YEAR * WORKING_DAYS_PER_WEEK) / 12;
+      return hourly * FIRST_OVERTIME_HOUR * workingDaysPerMonth;
+    }
+    case 'extended_hours': {
+      const weeksPerMonth = WEEKS_PER_YEAR / 12;
+      return hourly * (FIRST_OVERTIME_HOUR + NEXT_OVERTIME_HOURS) * weeksPerMonth;
+    }
+    case 'normal_period':
+      return 0;
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Subsídio de refeição (art. 2.º, n.º 3, al. b) 2) CIRS).
+ *
+ * The daily meal allowance is exempt from IRS and Social Security only up to
+ * a legal limit, which is higher when it is paid on a meal card than in cash
+ * (2026: 6.15 € in cash, 10.46 € on a card). Whatever is paid above the limit
+ * is taxed as salary: IRS, employee SS and TSU.
+ */
+
+export type MealAllowancePaymentMethod = 'card' | 'cash';
+
+export const MEAL_ALLOWANCE_EXEMPT_LIMITS: Readonly<Record<MealAllowancePaymentMethod, number>> = {
+  cash: 6.15,
+  card: 10.46,
+};
+
+export interface MealAllowanceSplit {
+  exempt: number;                // daily amount free of IRS and SS
+  taxable: number;               // daily amount above the limit
+}
+
+export function splitMealAllowance(daily: number, method: MealAllowancePaymentMethod): MealAllowanceSplit {
+  const exempt = Math.min(daily, MEAL_ALLOWANCE_EXEMPT_LIMITS[method]);
+  return { exempt, taxable: Math.max(0, daily - exempt) };
+}
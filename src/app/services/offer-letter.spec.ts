@@ -0,0 +1,45 @@
+import { OFFER_LETTER_TEMPLATE, offerLetterContent } from './offer-letter';
+import { SimulationResult } from './salary-forward.service';
+
+describe('offer letter', () => {
+  const result = {
+    flexBenefitsPercentage: 10,
+    salaryBase: 1600,
+    IHT: 400,
+    salaryBaseAndIHT: 2000,
+    irs: 250.5,
+    irsSF: 10,
+    irsSN: 10,
+    socialSecurity: 220,
+    monthlyValueToBenefits: 150,
+    monthlyMealAllowance: 224.84,
+    totalMin: 1889.34,
+    totalMax: 1904.34,
+    custoAnualParaEmpresa: 40000
+  } as SimulationResult;
+
+  it('should fill the template with the company name and the benefits share', () => {
+    const content = offerLetterContent({ companyName: 'Empresa, Lda.', date: new Date(), subsidyPaymentMode: 'duodecimos', result });
+
+    expect(content.introduction).toContain('Empresa, Lda. tem o prazer');
+    expect(content.introduction).toContain('10% do valor em benefícios flexíveis');
+    expect(content.signature).toContain('Empresa, Lda.');
+  });
+
+  it('should fall back to a generic name when the profile has none', () => {
+    const content = offerLetterContent({ companyName: '  ', date: new Date(), subsidyPaymentMode: 'june_november', result });
+
+    expect(content.introduction.startsWith(OFFER_LETTER_TEMPLATE.defaultCompanyName)).toBeTrue();
+  });
+
+  it('should break down the remuneration, deductions, net range and annual cost', () => {
+    const content = offerLetterContent({ companyName: 'Empresa', date: new Date(), subsidyPaymentMode: 'june_november', result });
+    const values = new Map(content.breakdown);
+
+    expect(values.get('Vencimento base')).toBe('1 600,00 €');
+    expect(values.get('Retenção de IRS')).toBe('270,50 €');
+    expect(values.get('Segurança Social')).toBe('220,00 €');
+    expect(values.get('Total líquido mensal')).toBe('1 889,34 € a 1 904,34 €');
+    expect(values.get('Custo anual para a empresa')).toBe('40 000,00 €');
+  });
+});
@@ -0,0 +1,122 @@
+import { SimulationResult, SubsidyPaymentMode } from './salary-forward.service';
+import { formatNumberPt } from '../utils/number-format';
+
+/**
+ * Offer letter for one proposal, generated in the browser as a PDF.
+ *
+ * The wording lives in OFFER_LETTER_TEMPLATE; "{companyName}" and the other
+ * placeholders are filled in from the company profile and the proposal. The
+ * PDF library is only loaded when a letter is generated.
+ */
+
+export interface OfferLetterData {
+  companyName: string;
+  date: Date;
+  subsidyPaymentMode: SubsidyPaymentMode;
+  result: SimulationResult;
+}
+
+export interface OfferLetterContent {
+  title: string;
+  greeting: string;
+  introduction: string;
+  breakdown: [string, string][];   // label / value
+  closing: string;
+  signature: string;
+}
+
+export const OFFER_LETTER_TEMPLATE = {
+  title: 'Proposta de Remuneração',
+  greeting: 'Exmo(a). Sr(a).,',
+  introduction:
+    '{companyName} tem o prazer de apresentar a seguinte proposta de remuneração, ' +
+    'com {flexBenefitsPercentage}% do valor em benefícios flexíveis. Os valores são mensais, salvo indicação em contrário.',
+  closing:
+    'Os valores líquidos são estimativas com base nas tabelas de retenção na fonte em vigor ' +
+    'e podem variar com a situação pessoal e familiar declarada.',
+  signature: 'Com os melhores cumprimentos,\n{companyName}',
+  defaultCompanyName: 'A empresa',
+};
+
+const SUBSIDY_PAYMENT_LABELS: Record<SubsidyPaymentMode, string> = {
+  june_november: 'pagos em junho e novembro',
+  duodecimos: 'pagos em duodécimos',
+  half_duodecimos: '50% em duodécimos, 50% em junho e novembro',
+};
+
+/** Letter text and breakdown, ready to be laid out. */
+export function offerLetterContent(data: OfferLetterData): OfferLetterContent {
+  const { result } = data;
+  const companyName = data.companyName.trim() || OFFER_LETTER_TEMPLATE.defaultCompanyName;
+  const fill = (text: string) =>
+    text
+      .replace(/\{companyName\}/g, companyName)
+      .replace(/\{flexBenefitsPercentage\}/g, String(result.flexBenefitsPercentage));
+  const euros = (value: number) => `${formatNumberPt(value)} €`;
+
+  const breakdown: [string, string][] = [
+    ['Vencimento base', euros(result.salaryBase)],
+    ['Isenção de horário de trabalho (IHT)', euros(result.IHT)],
+    [`Subsídios de férias e de Natal, cada (${SUBSIDY_PAYMENT_LABELS[data.subsidyPaymentMode]})`, euros(result.salaryBaseAndIHT)],
+    ['Benefícios flexíveis', euros(result.monthlyValueToBenefits)],
+    ['Subsídio de refeição', euros(result.monthlyMealAllowance)],
+    ['Retenção de IRS', euros(result.irs + result.irsSF + result.irsSN)],
+    ['Segurança Social', euros(result.socialSecurity)],
+    ['Total líquido mensal', `${euros(result.totalMin)} a ${euros(result.totalMax)}`],
+    ['Custo anual para a empresa', euros(result.custoAnualParaEmpresa)],
+  ];
+
+  return {
+    title: OFFER_LETTER_TEMPLATE.title,
+    greeting: fill(OFFER_LETTER_TEMPLATE.greeting),
+    introduction: fill(OFFER_LETTER_TEMPLATE.introduction),
+    breakdown,
+    closing: OFFER_LETTER_TEMPLATE.closing,
+    signature: fill(OFFER_LETTER_TEMPLATE.signature),
+  };
+}
+
+/** A4 PDF of the letter. */
+export async function toOfferLetterPdf(data: OfferLetterData): Promise<Blob> {
+  const { jsPDF } = await import('jspdf');
+  const content = offerLetterContent(data);
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const margin = 20;
+  const width = doc.internal.pageSize.getWidth() - 2 * margin;
+  let y = 25;
+
+  const paragraph = (text: string, gapAfter = 6) => {
+    const lines = doc.splitTextToSize(text, width) as string[];
+    doc.text(lines, margin, y);
+    y += lines.length * 5 + gapAfter;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(16);
+  doc.text(content.title, margin, y);
+  y += 8;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(10);
+  doc.text(data.date.toLocaleDateString('pt-PT'), margin, y);
+  y += 12;
+
+  doc.setFontSize(11);
+  paragraph(content.greeting, 3);
+  paragraph(content.introduction);
+
+  for (const [label, value] of content.breakdown) {
+    const labelLines = doc.splitTextToSize(label, width - 50) as string[];
+    doc.text(labelLines, margin, y);
+    doc.text(value, margin + width, y, { align: 'right' });
+    y += labelLines.length * 5 + 2;
+  }
+  y += 6;
+
+  doc.setFontSize(9);
+  paragraph(content.closing, 10);
+  doc.setFontSize(11);
+  paragraph(content.signature);
+
+  return doc.output('blob');
+}
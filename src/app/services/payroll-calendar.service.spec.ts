@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { PayrollCalendarService, mealAllowanceMonths } from './payroll-calendar.service';
+import { CalculateNetSalaryService } from './calculate-net-salary-service.service';
+import { ProposalData, ProposalParameters } from './salary-forward.service';
+import irsData from '../data/irs_2026_continente.json';
+
+describe('PayrollCalendarService', () => {
+  let service: PayrollCalendarService;
+
+  const params: ProposalParameters = {
+    location: 'continente',
+    maritalStatus: 'single',
+    dependents: 0,
+    subsidyPaymentMode: 'june_november',
+    mealAllowanceDaily: 10,
+    mealAllowanceDays: 22,
+    mealAllowanceMonths: 11,
+    ihtPercentage: 25,
+    tsu: 23.75,
+    ssRate: 0.11
+  };
+
+  // 2500 € / month (base + IHT), each subsidy paid in full in June / November
+  const proposal: ProposalData = {
+    flexBenefitsPercentage: 10,
+    tableId: 'I',
+    monthlyBaseSalary: 2000,
+    monthlyIHT: 500,
+    monthlyBenefits: 100,
+    monthlyMealAllowance: 220,
+    monthlyMealAllowanceTaxable: 0,
+    irs: 471.34,
+    socialSecurityMax: 275,
+    socialSecurityMin: 275,
+    subsidies: {
+      mode: 'june_november',
+      monthlyAmount: 0,
+      monthlyIrs: 0,
+      monthlySocialSecurity: 0,
+      lumpSumAmount: 2500,
+      lumpSumIrs: 471.34,
+      lumpSumSocialSecurity: 275
+    },
+    totalNetMax: 2073.66,
+    totalNetMin: 2063.66,
+    annualCost: 47000,
+    warnings: []
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    TestBed.inject(CalculateNetSalaryService).setDataset(irsData as any);
+    service = TestBed.inject(PayrollCalendarService);
+  });
+
+  it('should leave August out of the meal allowance first', () => {
+    expect(mealAllowanceMonths(12).length).toBe(12);
+    expect(mealAllowanceMonths(11)).not.toContain(8);
+    expect(mealAllowanceMonths(10)).toEqual([1, 2, 3, 4, 5, 6, 7, 9, 10, 11]);
+    expect(mealAllowanceMonths(0)).toEqual([]);
+  });
+
+  it('should pay the holiday subsidy in June and the Christmas subsidy in November', () => {
+    const calendar = service.build(proposal, params);
+    const june = calendar.months[5];
+    const january = calendar.months[0];
+
+    expect(calendar.months.length).toBe(12);
+    expect(january.subsidies).toBe(0);
+    expect(june.subsidies).toBe(2500);
+    expect(calendar.months[10].subsidies).toBe(2500);
+    // The subsidy is withheld on its own: twice the 471.34 of the salary
+    expect(june.irs).toBe(942.68);
+    expect(june.socialSecurity).toBe(550);
+    expect(june.net).toBe(3727.32);
+  });
+
+  it('should pay the meal allowance only in its months', () => {
+    const calendar = service.build(proposal, params);
+
+    expect(calendar.months[7].mealAllowance).toBe(0);
+    expect(calendar.months[7].gross).toBe(2500);
+    expect(calendar.months[8].mealAllowance).toBe(220);
+  });
+
+  it('should pay both duodécimos every month', () => {
+    const duodecimos: ProposalData = {
+      ...proposal,
+      subsidies: { ...proposal.subsidies, mode: 'duodecimos', monthlyAmount: 208.33, lumpSumAmount: 0 }
+    };
+    const calendar = service.build(duodecimos, { ...params, subsidyPaymentMode: 'duodecimos' });
+
+    expect(calendar.months.every(month => month.subsidies === 416.66)).toBeTrue();
+    // 2500 * 0.3836 - 487.66 = 471.34 on the salary, 39.28 on each duodécimo
+    expect(calendar.months[0].irs).toBe(549.9);
+  });
+
+  it('should add up the annual totals', () => {
+    const { totals } = service.build(proposal, params);
+
+    expect(totals.salary).toBe(30000);
+    expect(totals.subsidies).toBe(5000);
+    expect(totals.mealAllowance).toBe(2420);
+    expect(totals.gross).toBe(37420);
+    expect(totals.irs).toBe(6598.76);
+    expect(totals.benefits).toBe(1200);
+  });
+});
@@ -0,0 +1,158 @@
+import { Injectable, inject } from '@angular/core';
+import { CalculateNetSalaryService, IrsInput } from './calculate-net-salary-service.service';
+import { ProposalData, ProposalParameters } from './salary-forward.service';
+
+/**
+ * Month-by-month payroll of a proposal, January to December.
+ *
+ * - the holiday subsidy (SF) is paid in June and the Christmas subsidy (SN)
+ *   in November, for the part not paid in duodécimos
+ * - the meal allowance is paid in "mealAllowanceMonths" months: August
+ *   (holidays) is the first month left out, then December backwards
+ * - every month is withheld on its own: the salary (with the taxable meal
+ *   allowance of that month) and each subsidy line separately
+ */
+
+export interface PayrollMonth {
+  month: number;                 // 1 = January ... 12 = December
+  salary: number;                // base salary + IHT
+  subsidies: number;             // duodécimos + the SF / SN paid in the month
+  mealAllowance: number;
+  mealAllowanceTaxable: number;  // part above the exempt limit, included in IRS and SS
+  gross: number;                 // salary + subsidies + meal allowance
+  irs: number;
+  socialSecurity: number;
+  net: number;
+  benefits: number;              // flexible benefits (Max scenario: no IRS, no SS)
+}
+
+export type PayrollTotals = Omit<PayrollMonth, 'month'>;
+
+export interface PayrollCalendar {
+  flexBenefitsPercentage: number;
+  months: PayrollMonth[];
+  totals: PayrollTotals;
+}
+
+export const HOLIDAY_SUBSIDY_MONTH = 6;
+export const CHRISTMAS_SUBSIDY_MONTH = 11;
+
+// Meses sem subsídio de refeição, por ordem: agosto primeiro, depois de dezembro para trás
+const MONTHS_WITHOUT_MEAL_ALLOWANCE = [8, 12, 11, 10, 9, 7, 6, 5, 4, 3, 2, 1];
+
+/** Months (1-12) in which the meal allowance is paid. */
+export function mealAllowanceMonths(count: number): number[] {
+  const months = Math.min(12, Math.max(0, Math.round(count)));
+  const skipped = MONTHS_WITHOUT_MEAL_ALLOWANCE.slice(0, 12 - months);
+  return Array.from({ length: 12 }, (_, i) => i + 1).filter((month) => !skipped.includes(month));
+}
+
+@Injectable({
+  providedIn: 'root'
+})
+export class PayrollCalendarService {
+  private irsService = inject(CalculateNetSalaryService);
+
+  build(proposal: ProposalData, params: ProposalParameters): PayrollCalendar {
+    const mealMonths = mealAllowanceMonths(params.mealAllowanceMonths);
+    const months = Array.from({ length: 12 }, (_, i) =>
+      this.buildMonth(i + 1, proposal, params, mealMonths.includes(i + 1)),
+    );
+
+    return {
+      flexBenefitsPercentage: proposal.flexBenefitsPercentage,
+      months,
+      totals: this.sumMonths(months),
+    };
+  }
+
+  private buildMonth(
+    month: number,
+    proposal: ProposalData,
+    params: ProposalParameters,
+    paysMealAllowance: boolean,
+  ): PayrollMonth {
+    const { subsidies } = proposal;
+
+    // Passo 1: Vencimento e subsídio de refeição do mês
+    const salary = this.round2(proposal.monthlyBaseSalary + proposal.monthlyIHT);
+    const mealAllowance = paysMealAllowance ? proposal.monthlyMealAllowance : 0;
+    const mealAllowanceTaxable = paysMealAllowance ? proposal.monthlyMealAllowanceTaxable : 0;
+
+    // Passo 2: Retenção do vencimento (R = vencimento + parte tributada do subsídio de refeição)
+    const remuneration = salary + mealAllowanceTaxable;
+    const salaryCalculation = this.irsService.calculate(this.toIrsInput(params, remuneration));
+
+    // Passo 3: Subsídios - duodécimos todos os meses, SF em junho e SN em novembro
+    const subsidyLines = [subsidies.monthlyAmount, subsidies.monthlyAmount];
+    if (month === HOLIDAY_SUBSIDY_MONTH || month === CHRISTMAS_SUBSIDY_MONTH) {
+      subsidyLines.push(subsidies.lumpSumAmount);
+    }
+    let subsidiesTotal = 0;
+    let subsidiesIrs = 0;
+    let subsidiesSocialSecurity = 0;
+    for (const amount of subsidyLines.filter((line) => line > 0)) {
+      const line = this.irsService.calculateSubsidy({
+        ...this.toIrsInput(params, remuneration),
+        subsidyAmount: amount,
+      });
+      subsidiesTotal += line.subsidyAmount;
+      subsidiesIrs += line.irsWithheld;
+      subsidiesSocialSecurity += line.socialSecurity;
+    }
+
+    // Passo 4: Totais do mês
+    const gross = salary + subsidiesTotal + mealAllowance;
+    const irs = salaryCalculation.irsWithheld + subsidiesIrs;
+    const socialSecurity = salaryCalculation.socialSecurity + subsidiesSocialSecurity;
+
+    return {
+      month,
+      salary,
+      subsidies: this.round2(subsidiesTotal),
+      mealAllowance,
+      mealAllowanceTaxable,
+      gross: this.round2(gross),
+      irs: this.round2(irs),
+      socialSecurity: this.round2(socialSecurity),
+      net: this.round2(gross - irs - socialSecurity),
+      benefits: proposal.monthlyBenefits,
+    };
+  }
+
+  private sumMonths(months: PayrollMonth[]): PayrollTotals {
+    const sum = (key: keyof PayrollTotals) =>
+      this.round2(months.reduce((total, month) => total + month[key], 0));
+
+    return {
+      salary: sum('salary'),
+      subsidies: sum('subsidies'),
+      mealAllowance: sum('mealAllowance'),
+      mealAllowanceTaxable: sum('mealAllowanceTaxable'),
+      gross: sum('gross'),
+      irs: sum('irs'),
+      socialSecurity: sum('socialSecurity'),
+      net: sum('net'),
+      benefits: sum('benefits'),
+    };
+  }
+
+  private toIrsInput(params: ProposalParameters, grossSalary: number): IrsInput {
+    return {
+      grossSalary,
+      maritalStatus: params.maritalStatus,
+      location: params.location,
+      paymentDate: params.paymentDate,
+      irsJovem: params.irsJovem,
+      taxRegime: params.taxRegime,
+      dependents: params.dependents,
+      dependentsWithDisability: params.dependentsWithDisability,
+      hasDisability: params.hasDisability,
+      socialSecurityRate: params.ssRate,
+    };
+  }
+
+  private round2(n: number): number {
+    return Math.round((n + Number.EPSILON) * 100) / 100;
+  }
+}
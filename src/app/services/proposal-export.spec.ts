@@ -0,0 +1,84 @@
+import { ProposalExport, parameterRows, proposalTable, toProposalsCsv } from './proposal-export';
+import { SimulationResult } from './salary-forward.service';
+
+describe('proposal export', () => {
+  const result: SimulationResult = {
+    flexBenefitsPercentage: 10,
+    salaryBase: 1600,
+    IHT: 400,
+    tableId: 'I',
+    duodecimoSF: 0,
+    duodecimoSN: 0,
+    irsSF: 0,
+    irsSN: 0,
+    subsidyLumpSum: 2000,
+    subsidyLumpSumIrs: 250.5,
+    subsidyLumpSumNet: 1529.5,
+    irs: 250.5,
+    socialSecurity: 220,
+    netSalary: 1529.5,
+    netSalaryWithoutIrsJovem: 1529.5,
+    monthlyValueToBenefits: 150,
+    monthlyMealAllowance: 224.84,
+    monthlyMealAllowanceTaxable: 0,
+    totalMax: 1904.34,
+    totalMin: 1889.34,
+    salaryBaseAndIHT: 2000,
+    rendimento: 2150,
+    custoAnualParaEmpresa: 40000,
+    irsSettlement: -12.3,
+    marginalRate: 45.5,
+    nextBandDistance: 12.34,
+    warnings: [{ code: 'iht_below_legal_minimum', message: 'IHT 400.00 is below the legal minimum; check it.' }]
+  };
+
+  const data: ProposalExport = {
+    calculateBy: 'annualCost',
+    target: 40000,
+    parameters: {
+      location: 'continente',
+      maritalStatus: 'single',
+      dependents: 1,
+      hasDisability: false,
+      subsidyPaymentMode: 'june_november',
+      mealAllowanceDaily: 10.22,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      ihtPercentage: 25,
+      tsu: 23.75,
+      ssRate: 0.11,
+      irsJovem: { careerYear: 2 }
+    },
+    results: [result]
+  };
+
+  it('should export every SimulationResult field', () => {
+    const [header, row] = proposalTable([result]);
+
+    expect(header.length).toBe(Object.keys(result).length);
+    expect(row).toContain('I');
+    expect(row[row.length - 1]).toBe(result.warnings[0].message);
+  });
+
+  it('should list the calculation parameters', () => {
+    const rows = parameterRows(data);
+
+    expect(rows[0]).toEqual(['Custo anual empresa (€)', '40 000,00']);
+    expect(rows).toContain(['TSU empresa (%)', '23,75']);
+    expect(rows).toContain(['Titular com deficiência', 'Não']);
+    expect(rows).toContain(['IRS Jovem (ano)', '2']);
+    // Parameters that were not set are left out
+    expect(rows.some(([label]) => label === 'IHT fixo (€)')).toBeFalse();
+  });
+
+  it('should write a ";" separated CSV with Portuguese numbers', () => {
+    const lines = toProposalsCsv(data).split('\r\n');
+
+    expect(lines[0]).toBe('\uFEFFParâmetro;Valor');
+    const row = lines[lines.length - 2];
+    expect(row.startsWith('10,00;1 600,00;400,00;I;')).toBeTrue();
+    expect(row).toContain(';40 000,00;-12,30;45,50;12,34;');
+    // Values with the separator are quoted
+    expect(row.endsWith('"IHT 400.00 is below the legal minimum; check it."')).toBeTrue();
+  });
+});
@@ -0,0 +1,154 @@
+import { ProposalParameters, SimulationResult } from './salary-forward.service';
+import { CalculateBy } from '../simulator/simulator-state';
+import { CsvValue, toCsv } from '../utils/csv';
+import { formatNumberPt } from '../utils/number-format';
+
+/**
+ * Export of the proposal table (every flexible benefits share, every
+ * SimulationResult field) and of the parameters it was calculated with, to
+ * CSV and to XLSX. The XLSX library is only loaded when the file is built.
+ */
+
+export interface ProposalExport {
+  calculateBy: CalculateBy;
+  target: number;                     // annual cost or the target of the reverse calculation
+  parameters: ProposalParameters;
+  results: SimulationResult[];
+}
+
+const TARGET_LABELS: Record<CalculateBy, string> = {
+  annualCost: 'Custo anual empresa (€)',
+  targetNetSalary: 'Salário líquido pretendido (€)',
+  targetNetMin: 'Salário líquido mínimo pretendido (€)',
+  grossSalary: 'Salário bruto pretendido (€)',
+  baseSalary: 'Vencimento base pretendido (€)',
+};
+
+export type ColumnFormat = 'currency' | 'percentage' | 'text';
+
+// Um registo por campo: o compilador obriga a exportar qualquer campo novo
+export const RESULT_COLUMNS: Record<keyof SimulationResult, { label: string; format: ColumnFormat }> = {
+  flexBenefitsPercentage: { label: '% Benefícios Flexíveis', format: 'percentage' },
+  salaryBase: { label: 'Vencimento Base', format: 'currency' },
+  IHT: { label: 'IHT', format: 'currency' },
+  tableId: { label: 'Tabela IRS', format: 'text' },
+  duodecimoSF: { label: 'Duodécimo SF', format: 'currency' },
+  duodecimoSN: { label: 'Duodécimo SN', format: 'currency' },
+  irsSF: { label: 'IRS Duodécimo SF', format: 'currency' },
+  irsSN: { label: 'IRS Duodécimo SN', format: 'currency' },
+  subsidyLumpSum: { label: 'Subsídio Jun / Nov', format: 'currency' },
+  subsidyLumpSumIrs: { label: 'IRS Subsídio Jun / Nov', format: 'currency' },
+  subsidyLumpSumNet: { label: 'Subsídio Jun / Nov Líquido', format: 'currency' },
+  irs: { label: 'IRS', format: 'currency' },
+  socialSecurity: { label: 'Segurança Social', format: 'currency' },
+  netSalary: { label: 'Salário Líquido', format: 'currency' },
+  netSalaryWithoutIrsJovem: { label: 'Salário Líquido sem IRS Jovem', format: 'currency' },
+  monthlyValueToBenefits: { label: 'Benefícios Flexíveis / Mês', format: 'currency' },
+  monthlyMealAllowance: { label: 'Subs. Refeição', format: 'currency' },
+  monthlyMealAllowanceTaxable: { label: 'Subs. Refeição Tributado', format: 'currency' },
+  totalMax: { label: 'Total Max', format: 'currency' },
+  totalMin: { label: 'Total Min', format: 'currency' },
+  salaryBaseAndIHT: { label: 'Vencimento Base + IHT', format: 'currency' },
+  rendimento: { label: 'Rendimento', format: 'currency' },
+  custoAnualParaEmpresa: { label: 'Custo Anual Empresa', format: 'currency' },
+  irsSettlement: { label: 'Acerto IRS (estimativa)', format: 'currency' },
+  marginalRate: { label: 'Líquido por € Adicional de Custo (%)', format: 'percentage' },
+  nextBandDistance: { label: 'Bruto até ao Próximo Escalão IRS', format: 'currency' },
+  warnings: { label: 'Avisos', format: 'text' },
+};
+
+const PARAMETER_LABELS: Record<keyof ProposalParameters, string> = {
+  location: 'Localização',
+  paymentDate: 'Data de pagamento',
+  maritalStatus: 'Estado civil',
+  dependents: 'Dependentes',
+  dependentsWithDisability: 'Dependentes com deficiência',
+  hasDisability: 'Titular com deficiência',
+  subsidyPaymentMode: 'Pagamento dos subsídios',
+  mealAllowanceDaily: 'Subs. refeição diário (€)',
+  mealAllowanceDays: 'Dias de subs. refeição / mês',
+  mealAllowanceMonths: 'Meses de subs. refeição',
+  mealAllowancePaymentMethod: 'Subs. refeição pago em',
+  ihtPercentage: 'IHT (%)',
+  ihtFixedAmount: 'IHT fixo (€)',
+  ihtCategory: 'Categoria IHT',
+  tsu: 'TSU empresa (%)',
+  ssRate: 'Taxa SS trabalhador',
+  irsJovem: 'IRS Jovem (ano)',
+  taxRegime: 'Regime fiscal',
+  minFlexBenefitsPercentage: '% Benefícios flexíveis mínima',
+  maxFlexBenefitsPercentage: '% Benefícios flexíveis máxima',
+  flexBenefitsStep: 'Intervalo % benefícios flexíveis',
+};
+
+export const PROPOSALS_FILE_NAME = 'propostas-salariais';
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// Formato "1 000,50 €" do CurrencyPtPipe; o Excel aplica os separadores da região
+const XLSX_CURRENCY_FORMAT = '#,##0.00 "€"';
+
+/** Header and one row per proposal; numbers stay numbers (formatted by CSV / XLSX). */
+export function proposalTable(results: SimulationResult[]): CsvValue[][] {
+  const keys = Object.keys(RESULT_COLUMNS) as (keyof SimulationResult)[];
+  const header = keys.map((key) => RESULT_COLUMNS[key].label);
+  const rows = results.map((result) =>
+    keys.map((key) =>
+      key === 'warnings'
+        ? result.warnings.map((warning) => warning.message).join(' ')
+        : (result[key] as string | number),
+    ),
+  );
+  return [header, ...rows];
+}
+
+/** Label / value pairs for the inputs of the calculation. */
+export function parameterRows(data: ProposalExport): [string, string][] {
+  const rows: [string, string][] = [[TARGET_LABELS[data.calculateBy], formatNumberPt(data.target)]];
+
+  for (const key of Object.keys(PARAMETER_LABELS) as (keyof ProposalParameters)[]) {
+    const value = data.parameters[key];
+    if (value === undefined) continue;
+    const formatted = key === 'irsJovem' ? String(data.parameters.irsJovem?.careerYear) : formatParameter(value);
+    rows.push([PARAMETER_LABELS[key], formatted]);
+  }
+  return rows;
+}
+
+/** Parameters first, then a blank line and the proposal table. */
+export function toProposalsCsv(data: ProposalExport): string {
+  return toCsv([['Parâmetro', 'Valor'], ...parameterRows(data), [], ...proposalTable(data.results)]);
+}
+
+/** XLSX with a "Propostas" and a "Parâmetros" sheet. */
+export async function toProposalsXlsx(data: ProposalExport): Promise<Blob> {
+  const exceljs = await import('exceljs');
+  // Módulo CommonJS: conforme quem o carrega, as classes vêm no namespace ou em "default"
+  const { Workbook } = exceljs.default ?? exceljs;
+  const workbook = new Workbook();
+
+  const proposals = workbook.addWorksheet('Propostas');
+  proposals.addRows(proposalTable(data.results));
+  proposals.getRow(1).font = { bold: true };
+  (Object.keys(RESULT_COLUMNS) as (keyof SimulationResult)[]).forEach((key, index) => {
+    const column = proposals.getColumn(index + 1);
+    column.width = Math.max(12, RESULT_COLUMNS[key].label.length + 2);
+    if (RESULT_COLUMNS[key].format === 'currency') {
+      column.numFmt = XLSX_CURRENCY_FORMAT;
+    }
+  });
+
+  const parameters = workbook.addWorksheet('Parâmetros');
+  parameters.addRows([['Parâmetro', 'Valor'], ...parameterRows(data)]);
+  parameters.getRow(1).font = { bold: true };
+  parameters.getColumn(1).width = 36;
+  parameters.getColumn(2).width = 24;
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return new Blob([buffer], { type: XLSX_MIME_TYPE });
+}
+
+function formatParameter(value: unknown): string {
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'number') return String(value).replace('.', ',');
+  return String(value);
+}
@@ -0,0 +1,160 @@
+import { TestBed } from '@angular/core/testing';
+import { MAX_PROPOSALS_PER_REQUEST, SalaryApiService } from './salary-api.service';
+
+describe('SalaryApiService', () => {
+  let api: SalaryApiService;
+
+  const worker = { maritalStatus: 'single', location: 'continente' };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    api = TestBed.inject(SalaryApiService);
+  });
+
+  describe('POST /api/net-salary', () => {
+    it('should return the IRS calculation', () => {
+      const response = api.netSalary({ ...worker, grossSalary: 2500 });
+
+      expect(response.status).toBe(200);
+      expect(response.status === 200 && response.body.irsWithheld).toBe(471.34);
+    });
+
+    it('should report every invalid, missing and unknown field', () => {
+      const response = api.netSalary({ grossSalary: -1, maritalStatus: 'divorced', dependents: 1.5, foo: true });
+
+      expect(response).toEqual({
+        status: 400,
+        body: {
+          error: {
+            code: 'invalid_request',
+            message: 'The request body is not valid.',
+            details: [
+              { path: 'maritalStatus', message: 'maritalStatus must be one of "single", "married_one_holder", "married_two_holders".' },
+              { path: 'location', message: 'location is required.' },
+              { path: 'dependents', message: 'dependents must be an integer between 0 and 99.' },
+              { path: 'grossSalary', message: 'grossSalary must be a number > 0.' },
+              { path: 'foo', message: 'foo is not a known field.' }
+            ]
+          }
+        }
+      });
+    });
+
+    it('should reject a body that is not an object', () => {
+      const response = api.netSalary([1, 2]);
+
+      expect(response.status).toBe(400);
+      expect(response.status !== 200 && response.body.error.details).toEqual([
+        { path: '', message: 'The request body must be a JSON object.' }
+      ]);
+    });
+
+    it('should only accept the locations with retention tables', () => {
+      const response = api.netSalary({ ...worker, grossSalary: 2500, location: 'madeira' });
+
+      expect(response.status !== 200 && response.body.error.details).toEqual([
+        { path: 'location', message: 'location must be one of "continente".' }
+      ]);
+    });
+
+    it('should check the rules between fields', () => {
+      const response = api.netSalary({
+        ...worker,
+        grossSalary: 2500,
+        dependents: 1,
+        dependentsWithDisability: 2,
+        taxRegime: 'ifici',
+        irsJovem: { careerYear: 1 }
+      });
+
+      expect(response.status !== 200 && response.body.error.details!.map((error) => error.path)).toEqual([
+        'dependentsWithDisability',
+        'irsJovem'
+      ]);
+    });
+
+    it('should reject a payment date that does not exist', () => {
+      ['2026-02-30', '2026-13-01', '2026-1-01'].forEach((paymentDate) =>
+        expect(api.netSalary({ ...worker, grossSalary: 2500, paymentDate }).status).toBe(400)
+      );
+      expect(api.netSalary({ ...worker, grossSalary: 2500, paymentDate: '2026-02-28' }).status).toBe(200);
+    });
+
+    it('should report calculation errors as 422', () => {
+      const response = api.netSalary({ ...worker, grossSalary: 2500, paymentDate: '2020-01-01' });
+
+      expect(response.status).toBe(422);
+      expect(response.status !== 200 && response.body.error.code).toBe('calculation_failed');
+    });
+  });
+
+  describe('POST /api/proposals', () => {
+    it('should calculate by annual cost with the default company parameters', () => {
+      const response = api.proposalsByCost({ ...worker, annualCost: 40000 });
+
+      expect(response.status).toBe(200);
+      if (response.status !== 200) return;
+      expect(response.body.proposals.map((p) => p.flexBenefitsPercentage)).toEqual([0, 5, 10, 15, 20, 25, 30]);
+      expect(response.body.proposals[0].IHT).toBe(0);
+      response.body.proposals.forEach((p) => expect(p.custoAnualParaEmpresa).toBeCloseTo(40000, 0));
+    });
+
+    it('should calculate by net salary', () => {
+      const response = api.proposalsByNet({
+        ...worker,
+        targetNetSalary: 2000,
+        minFlexBenefitsPercentage: 10,
+        maxFlexBenefitsPercentage: 10
+      });
+
+      expect(response.status).toBe(200);
+      if (response.status !== 200) return;
+      expect(response.body.proposals.length).toBe(1);
+      expect(response.body.proposals[0].totalMax).toBeCloseTo(2000, 1);
+    });
+
+    it('should report a net salary that cannot be reached as 422', () => {
+      const response = api.proposalsByNet({ ...worker, targetNetSalary: 60000 });
+
+      expect(response.status).toBe(422);
+      expect(response.status !== 200 && response.body.error.message).toContain('cannot be reached');
+    });
+
+    it('should require the target of each direction', () => {
+      expect(api.proposalsByCost({ ...worker, targetNetSalary: 2000 }).status).toBe(400);
+      expect(api.proposalsByNet({ ...worker, annualCost: 40000 }).status).toBe(400);
+    });
+
+    it('should not take a percentage and a fixed IHT together', () => {
+      const response = api.proposalsByCost({ ...worker, annualCost: 40000, ihtPercentage: 25, ihtFixedAmount: 300 });
+
+      expect(response.status !== 200 && response.body.error.details).toEqual([
+        { path: 'ihtFixedAmount', message: 'ihtFixedAmount cannot be combined with ihtPercentage.' }
+      ]);
+      expect(api.proposalsByCost({ ...worker, annualCost: 40000, ihtFixedAmount: 300 }).status).toBe(200);
+    });
+
+    it('should limit the number of proposals per request', () => {
+      const response = api.proposalsByNet({ ...worker, targetNetSalary: 2000, flexBenefitsStep: 0.1 });
+
+      expect(response.status !== 200 && response.body.error.details).toEqual([
+        { path: 'flexBenefitsStep', message: `flexBenefitsStep gives more than ${MAX_PROPOSALS_PER_REQUEST} proposals.` }
+      ]);
+    });
+
+    it('should keep the flexible benefits share below 100%', () => {
+      const response = api.proposalsByCost({ ...worker, annualCost: 40000, maxFlexBenefitsPercentage: 100 });
+
+      expect(response.status !== 200 && response.body.error.details).toEqual([
+        { path: 'maxFlexBenefitsPercentage', message: 'maxFlexBenefitsPercentage must be a percentage of at least 0 and below 100.' }
+      ]);
+      expect(api.proposalsByCost({ ...worker, annualCost: 40000, maxFlexBenefitsPercentage: 99 }).status).toBe(200);
+    });
+
+    it('should reject an inverted flexible benefits range', () => {
+      const response = api.proposalsByCost({ ...worker, annualCost: 40000, minFlexBenefitsPercentage: 20, maxFlexBenefitsPercentage: 10 });
+
+      expect(response.status !== 200 && response.body.error.details![0].path).toBe('minFlexBenefitsPercentage');
+    });
+  });
+});
@@ -0,0 +1,258 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  CalculateNetSalaryService,
+  IrsInput,
+  IrsResult,
+} from './calculate-net-salary-service.service';
+import { IrsAnnualSettlementService } from './irs-annual-settlement.service';
+import {
+  ForwardCalculationInput,
+  ProposalData,
+  ProposalParameters,
+  SalaryForwardService,
+  SimulationResult,
+} from './salary-forward.service';
+import { SalaryReverseService } from './salary-reverse.service';
+import { DEFAULT_COMPANY_PROFILE, FLEX_BENEFITS_PERCENTAGE_LIMIT, companyProfileParameters } from './company-profile';
+import { IRS_DATASET_LOCATIONS, loadIrsDatasets } from '../data/irs-datasets';
+import { isIsoDate } from '../utils/iso-date';
+
+/**
+ * JSON API over the calculation services, served by the Express server
+ * (server.ts) under /api:
+ * - POST /api/net-salary        IrsInput                      -> IrsResult
+ * - POST /api/proposals/by-cost ProposalParameters + annualCost -> { proposals }
+ * - POST /api/proposals/by-net  ProposalParameters + targetNetSalary -> { proposals }
+ *
+ * The request body is validated field by field and every problem is reported
+ * at once; the company parameters that are left out take the defaults of the
+ * simulator's company profile.
+ */
+
+export type ApiErrorCode = 'invalid_json' | 'invalid_request' | 'calculation_failed' | 'not_found';
+
+export interface ApiValidationError {
+  path: string;        // e.g. "irsJovem", "dependentsWithDisability"
+  message: string;
+}
+
+export interface ApiError {
+  code: ApiErrorCode;
+  message: string;
+  details?: ApiValidationError[];
+}
+
+export type ApiResponse<T> =
+  | { status: 200; body: T }
+  | { status: 400 | 404 | 422; body: { error: ApiError } };
+
+export interface ProposalsResponse {
+  proposals: SimulationResult[];
+}
+
+// Cada pedido gera uma proposta por percentagem de benefícios flexíveis
+export const MAX_PROPOSALS_PER_REQUEST = 100;
+
+interface FieldRule {
+  required?: boolean;
+  valid: (value: unknown) => boolean;
+  expected: string;    // completes "<field> must be ..."
+}
+
+const number = (min: number, max = Number.MAX_VALUE) => (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+const positiveNumber = (value: unknown) => number(0)(value) && (value as number) > 0;
+const integer = (min: number, max = Number.MAX_SAFE_INTEGER) => (value: unknown) =>
+  Number.isInteger(value) && number(min, max)(value);
+const oneOf = (...options: string[]) => (value: unknown) => typeof value === 'string' && options.includes(value);
+const boolean = (value: unknown) => typeof value === 'boolean';
+const isoDate = (value: unknown) => typeof value === 'string' && isIsoDate(value);
+const flexBenefitsPercentage = (value: unknown) =>
+  number(0, 100)(value) && (value as number) < FLEX_BENEFITS_PERCENTAGE_LIMIT;
+const irsJovem = (value: unknown) =>
+  typeof value === 'object' && value !== null && integer(1, 10)((value as { careerYear?: unknown }).careerYear);
+
+const WORKER_RULES = {
+  maritalStatus: {
+    required: true,
+    valid: oneOf('single', 'married_one_holder', 'married_two_holders'),
+    expected: 'one of "single", "married_one_holder", "married_two_holders"',
+  },
+  // Só as regiões com tabelas de retenção publicadas
+  location: {
+    required: true,
+    valid: oneOf(...IRS_DATASET_LOCATIONS),
+    expected: `one of ${IRS_DATASET_LOCATIONS.map((location) => `"${location}"`).join(', ')}`,
+  },
+  dependents: { valid: integer(0, 99), expected: 'an integer between 0 and 99' },
+  dependentsWithDisability: { valid: integer(0, 99), expected: 'an integer between 0 and 99' },
+  hasDisability: { valid: boolean, expected: 'a boolean' },
+  paymentDate: { valid: isoDate, expected: 'an ISO date (YYYY-MM-DD)' },
+  irsJovem: { valid: irsJovem, expected: 'an object { "careerYear": 1..10 }' },
+  taxRegime: { valid: oneOf('standard', 'ifici'), expected: 'one of "standard", "ifici"' },
+} satisfies Record<string, FieldRule>;
+
+const NET_SALARY_RULES: Record<keyof IrsInput, FieldRule> = {
+  ...WORKER_RULES,
+  grossSalary: { required: true, valid: positiveNumber, expected: 'a number > 0' },
+  socialSecurityRate: { valid: number(0, 1), expected: 'a rate between 0 and 1 (e.g. 0.11)' },
+};
+
+const PROPOSAL_RULES: Record<keyof ProposalParameters, FieldRule> = {
+  ...WORKER_RULES,
+  subsidyPaymentMode: {
+    valid: oneOf('june_november', 'duodecimos', 'half_duodecimos'),
+    expected: 'one of "june_november", "duodecimos", "half_duodecimos"',
+  },
+  mealAllowanceDaily: { valid: number(0), expected: 'a number >= 0' },
+  mealAllowanceDays: { valid: number(0, 31), expected: 'a number between 0 and 31' },
+  mealAllowanceMonths: { valid: number(0, 12), expected: 'a number between 0 and 12' },
+  mealAllowancePaymentMethod: { valid: oneOf('card', 'cash'), expected: 'one of "card", "cash"' },
+  ihtPercentage: { valid: number(0, 100), expected: 'a percentage between 0 and 100' },
+  ihtFixedAmount: { valid: number(0), expected: 'a number >= 0' },
+  ihtCategory: {
+    valid: oneOf('unlimited', 'extended_hours', 'normal_period'),
+    expected: 'one of "unlimited", "extended_hours", "normal_period"',
+  },
+  tsu: { valid: number(0, 100), expected: 'a percentage between 0 and 100' },
+  ssRate: { valid: number(0, 1), expected: 'a rate between 0 and 1 (e.g. 0.11)' },
+  // Abaixo de 100%: sem vencimento não há proposta
+  minFlexBenefitsPercentage: { valid: flexBenefitsPercentage, expected: 'a percentage of at least 0 and below 100' },
+  maxFlexBenefitsPercentage: { valid: flexBenefitsPercentage, expected: 'a percentage of at least 0 and below 100' },
+  flexBenefitsStep: { valid: (value) => positiveNumber(value) && number(0, 100)(value), expected: 'a number > 0 and <= 100' },
+};
+
+const BY_COST_RULES: Record<keyof ForwardCalculationInput, FieldRule> = {
+  ...PROPOSAL_RULES,
+  annualCost: { required: true, valid: positiveNumber, expected: 'a number > 0' },
+};
+
+// Este endpoint resolve sempre para o líquido Max (target 'totalNetMax' do SalaryReverseService)
+const BY_NET_RULES: Record<keyof ProposalParameters | 'targetNetSalary', FieldRule> = {
+  ...PROPOSAL_RULES,
+  targetNetSalary: { required: true, valid: positiveNumber, expected: 'a number > 0' },
+};
+
+/** Every problem in a request body, checked against the rules of the endpoint. */
+function validateRequestBody(body: unknown, rules: Record<string, FieldRule>): ApiValidationError[] {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [{ path: '', message: 'The request body must be a JSON object.' }];
+  }
+
+  const fields = body as Record<string, unknown>;
+  const errors: ApiValidationError[] = [];
+  for (const [path, rule] of Object.entries(rules)) {
+    const value = fields[path];
+    if (value === undefined) {
+      if (rule.required) errors.push({ path, message: `${path} is required.` });
+    } else if (!rule.valid(value)) {
+      errors.push({ path, message: `${path} must be ${rule.expected}.` });
+    }
+  }
+  for (const path of Object.keys(fields)) {
+    if (!Object.hasOwn(rules, path)) errors.push({ path, message: `${path} is not a known field.` });
+  }
+
+  // Regras entre campos, só quando os campos em si são válidos
+  if (errors.length > 0) return errors;
+  if (Number(fields['dependentsWithDisability'] ?? 0) > Number(fields['dependents'] ?? 0)) {
+    errors.push({ path: 'dependentsWithDisability', message: 'dependentsWithDisability must not be greater than dependents.' });
+  }
+  if (fields['irsJovem'] && fields['taxRegime'] === 'ifici') {
+    errors.push({ path: 'irsJovem', message: 'IRS Jovem cannot be combined with the IFICI regime.' });
+  }
+  if (fields['ihtPercentage'] !== undefined && fields['ihtFixedAmount'] !== undefined) {
+    errors.push({ path: 'ihtFixedAmount', message: 'ihtFixedAmount cannot be combined with ihtPercentage.' });
+  }
+  return errors;
+}
+
+@Injectable({ providedIn: 'root' })
+export class SalaryApiService {
+  constructor(
+    private readonly irsService: CalculateNetSalaryService = inject(CalculateNetSalaryService),
+    private readonly settlementService: IrsAnnualSettlementService = inject(IrsAnnualSettlementService),
+    private readonly forwardService: SalaryForwardService = inject(SalaryForwardService),
+    private readonly reverseService: SalaryReverseService = inject(SalaryReverseService),
+  ) {
+    loadIrsDatasets(this.irsService, this.settlementService);
+  }
+
+  /** POST /api/net-salary */
+  netSalary(body: unknown): ApiResponse<IrsResult> {
+    const errors = validateRequestBody(body, NET_SALARY_RULES);
+    if (errors.length > 0) return invalidRequest(errors);
+
+    const input = body as IrsInput;
+    return this.run(() => this.irsService.calculate({ ...input, dependents: input.dependents ?? 0 }));
+  }
+
+  /** POST /api/proposals/by-cost */
+  proposalsByCost(body: unknown): ApiResponse<ProposalsResponse> {
+    const errors = validateRequestBody(body, BY_COST_RULES);
+    if (errors.length > 0) return invalidRequest(errors);
+
+    const params = this.getProposalParameters(body as Partial<ProposalParameters>);
+    const rangeErrors = this.validateFlexBenefitsRange(params);
+    if (rangeErrors.length > 0) return invalidRequest(rangeErrors);
+
+    const annualCost = (body as ForwardCalculationInput).annualCost;
+    return this.run(() => this.toResponse(this.forwardService.getProposals({ ...params, annualCost }), params));
+  }
+
+  /** POST /api/proposals/by-net */
+  proposalsByNet(body: unknown): ApiResponse<ProposalsResponse> {
+    const errors = validateRequestBody(body, BY_NET_RULES);
+    if (errors.length > 0) return invalidRequest(errors);
+
+    const params = this.getProposalParameters(body as Partial<ProposalParameters>);
+    const rangeErrors = this.validateFlexBenefitsRange(params);
+    if (rangeErrors.length > 0) return invalidRequest(rangeErrors);
+
+    const { targetNetSalary } = body as { targetNetSalary: number };
+    return this.run(() =>
+      this.toResponse(this.reverseService.getProposals({ ...params, target: 'totalNetMax', targetValue: targetNetSalary }), params),
+    );
+  }
+
+  /** The request fields over the defaults of the simulator's company profile. */
+  private getProposalParameters(body: Partial<ProposalParameters>): ProposalParameters {
+    return {
+      ...companyProfileParameters(DEFAULT_COMPANY_PROFILE),
+      dependents: 0,
+      subsidyPaymentMode: 'june_november',
+      ihtPercentage: 0,
+      ...body,
+    } as ProposalParameters;
+  }
+
+  private validateFlexBenefitsRange(params: ProposalParameters): ApiValidationError[] {
+    const min = params.minFlexBenefitsPercentage ?? 0;
+    const max = params.maxFlexBenefitsPercentage ?? 0;
+    if (min > max) {
+      return [{ path: 'minFlexBenefitsPercentage', message: 'minFlexBenefitsPercentage must not be greater than maxFlexBenefitsPercentage.' }];
+    }
+    if ((max - min) / (params.flexBenefitsStep ?? 1) >= MAX_PROPOSALS_PER_REQUEST) {
+      return [{ path: 'flexBenefitsStep', message: `flexBenefitsStep gives more than ${MAX_PROPOSALS_PER_REQUEST} proposals.` }];
+    }
+    return [];
+  }
+
+  private toResponse(proposals: ProposalData[], params: ProposalParameters): ProposalsResponse {
+    return { proposals: proposals.map((proposal) => this.forwardService.toSimulationResult(proposal, params)) };
+  }
+
+  /** Errors thrown by the calculation (e.g. no IRS tables for the payment date) become a 422. */
+  private run<T>(calculate: () => T): ApiResponse<T> {
+    try {
+      return { status: 200, body: calculate() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { status: 422, body: { error: { code: 'calculation_failed', message } } };
+    }
+  }
+}
+
+function invalidRequest(details: ApiValidationError[]): ApiResponse<never> {
+  return { status: 400, body: { error: { code: 'invalid_request', message: 'The request body is not valid.', details } } };
+}
@@ -0,0 +1,342 @@
+import { TestBed } from '@angular/core/testing';
+import { ForwardCalculationInput, SalaryForwardService } from './salary-forward.service';
+import { CalculateNetSalaryService } from './calculate-net-salary-service.service';
+import { IrsAnnualDataset, IrsAnnualSettlementService } from './irs-annual-settlement.service';
+import irsAnnualData from '../data/irs_2026_annual.json';
+
+describe('SalaryForwardService', () => {
+  let service: SalaryForwardService;
+  let mockIrsService: jasmine.SpyObj<CalculateNetSalaryService>;
+
+  const input: ForwardCalculationInput = {
+    annualCost: 30000,
+    location: 'continente',
+    maritalStatus: 'single',
+    dependents: 0,
+    subsidyPaymentMode: 'june_november',
+    mealAllowanceDaily: 10,
+    mealAllowanceDays: 22,
+    mealAllowanceMonths: 11,
+    ihtPercentage: 25,
+    tsu: 23.75,
+    ssRate: 0.11
+  };
+
+  beforeEach(() => {
+    mockIrsService = jasmine.createSpyObj('CalculateNetSalaryService', ['calculate', 'calculateSubsidy', 'getBandLimits']);
+    mockIrsService.getBandLimits.and.returnValue([]);
+
+    // Simple dynamic mock: IRS 10%, SS at the given rate
+    mockIrsService.calculate.and.callFake((irsInput) => {
+      const socialSecurity = irsInput.grossSalary * (irsInput.socialSecurityRate ?? 0.11);
+      return {
+        tableId: 'I',
+        taxableSalary: irsInput.grossSalary,
+        irsJovemExemption: 0,
+        band: { rate: 0.1, deduction: 0 },
+        rate: 0.1,
+        deduction: 0,
+        additionalPerDependent: 0,
+        irsWithheld: irsInput.grossSalary * 0.1,
+        socialSecurity,
+        netSalary: irsInput.grossSalary * 0.9 - socialSecurity
+      };
+    });
+    mockIrsService.calculateSubsidy.and.callFake((subsidyInput) => {
+      const subsidyAmount = subsidyInput.subsidyAmount;
+      const socialSecurity = subsidyAmount * (subsidyInput.socialSecurityRate ?? 0.11);
+      return {
+        tableId: 'I',
+        subsidyAmount,
+        taxableSubsidy: subsidyAmount,
+        irsJovemExemption: 0,
+        rate: 0.1,
+        irsWithheld: subsidyAmount * 0.1,
+        socialSecurity,
+        netSubsidy: subsidyAmount * 0.9 - socialSecurity
+      };
+    });
+
+    TestBed.configureTestingModule({
+      providers: [
+        SalaryForwardService,
+        { provide: CalculateNetSalaryService, useValue: mockIrsService }
+      ]
+    });
+    service = TestBed.inject(SalaryForwardService);
+    TestBed.inject(IrsAnnualSettlementService).setDataset(irsAnnualData as IrsAnnualDataset);
+  });
+
+  it('should be created', () => {
+    expect(service).toBeTruthy();
+  });
+
+  it('should generate one proposal per flexible benefits step', () => {
+    const proposals = service.getProposals(input);
+
+    expect(proposals.map(p => p.flexBenefitsPercentage)).toEqual([0, 5, 10, 15, 20, 25, 30]);
+    expect(service.getProposals({ ...input, maxFlexBenefitsPercentage: 20, flexBenefitsStep: 10 }).length).toBe(3);
+  });
+
+  it('should split the budget into base salary and IHT after meal allowance and TSU', () => {
+    const proposal = service.calculateProposal(input, 30000, 0);
+
+    // (30000 - 10 * 22 * 11) / 1.2375 / 14 = 1591.92 gross
+    // IHT = 1591.92 * 25 / 125 = 318.38
+    expect(proposal.monthlyBaseSalary + proposal.monthlyIHT).toBeCloseTo(1591.92, 1);
+    expect(proposal.monthlyIHT).toBeCloseTo(318.38, 1);
+    expect(proposal.monthlyMealAllowance).toBe(220);
+    expect(proposal.tableId).toBe('I');
+  });
+
+  it('should not charge TSU on flexible benefits', () => {
+    const proposal = service.calculateProposal(input, 30000, 20);
+
+    // factor = 0.8 * 1.2375 + 0.2 = 1.19 -> 27580 / 1.19 = 23176.47 distributable
+    // benefits: 23176.47 * 20% / 12 = 386.27; gross: 23176.47 * 80% / 14 = 1324.37
+    expect(proposal.monthlyBenefits).toBeCloseTo(386.27, 1);
+    expect(proposal.monthlyBaseSalary + proposal.monthlyIHT).toBeCloseTo(1324.37, 1);
+  });
+
+  it('should give back the annual cost it was asked for', () => {
+    service.getProposals(input).forEach(proposal => {
+      expect(proposal.annualCost).toBeCloseTo(30000, 1);
+    });
+    service.getProposals({ ...input, subsidyPaymentMode: 'duodecimos' }).forEach(proposal => {
+      expect(proposal.annualCost).toBeCloseTo(30000, 1);
+    });
+  });
+
+  it('should keep benefits out of IRS and SS in the Max case and subject to IRS in the Min case', () => {
+    const proposal = service.calculateProposal(input, 30000, 20);
+    const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+
+    expect(proposal.totalNetMax).toBeCloseTo(gross * 0.79 + 220 + proposal.monthlyBenefits, 1);
+    expect(proposal.totalNetMin).toBeCloseTo(gross * 0.79 + proposal.monthlyBenefits * 0.9 + 220, 1);
+  });
+
+  describe('Meal allowance above the exempt limit', () => {
+    it('should keep a card meal allowance up to 10.46 €/day exempt', () => {
+      const proposal = service.calculateProposal(input, 30000, 0);
+
+      expect(proposal.monthlyMealAllowanceTaxable).toBe(0);
+    });
+
+    it('should tax the cash meal allowance above 6.15 €/day with IRS, SS and TSU', () => {
+      const params = { ...input, mealAllowancePaymentMethod: 'cash' as const };
+      const proposal = service.calculateProposal(params, 30000, 0);
+      const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+
+      // (10 - 6.15) * 22 = 84.70 taxed as salary, 6.15 * 22 = 135.30 exempt
+      expect(proposal.monthlyMealAllowance).toBe(220);
+      expect(proposal.monthlyMealAllowanceTaxable).toBe(84.7);
+      expect(proposal.totalNetMax).toBeCloseTo((gross + 84.7) * 0.79 + 135.3, 1);
+      expect(mockIrsService.calculate.calls.first().args[0].grossSalary).toBeCloseTo(gross + 84.7, 1);
+
+      // TSU on the excess: the budget left for the salary is smaller than with a card
+      const cardProposal = service.calculateProposal(input, 30000, 0);
+      expect(gross).toBeLessThan(cardProposal.monthlyBaseSalary + cardProposal.monthlyIHT);
+      expect(proposal.annualCost).toBeCloseTo(30000, 1);
+    });
+
+    it('should count the taxable part in the same months for the income and the IRS withheld', () => {
+      const params = { ...input, mealAllowancePaymentMethod: 'cash' as const };
+      const estimate = spyOn(TestBed.inject(IrsAnnualSettlementService), 'estimate').and.callThrough();
+      service.toSimulationResult(service.calculateProposal(params, 30000, 0), params);
+
+      // IRS de 10% em tudo: 11 meses com os 84,70 € tributados, agosto sem eles
+      const { grossIncome, irsWithheld } = estimate.calls.mostRecent().args[0];
+      expect(irsWithheld).toBeCloseTo(grossIncome * 0.1, 0);
+    });
+
+    it('should include the TSU on the excess in the annual cost', () => {
+      const params = { ...input, mealAllowancePaymentMethod: 'cash' as const };
+
+      // 6.15 * 22 * 11 + 84.7 * 11 * 1.2375
+      expect(service.getAnnualMealAllowanceCost(params)).toBeCloseTo(1488.3 + 1152.98, 1);
+    });
+  });
+
+  describe('IHT and legal minimums', () => {
+    it('should support a fixed monthly IHT amount', () => {
+      const proposal = service.calculateProposal({ ...input, ihtFixedAmount: 200 }, 30000, 0);
+
+      expect(proposal.monthlyIHT).toBe(200);
+      expect(proposal.monthlyBaseSalary + proposal.monthlyIHT).toBeCloseTo(1591.92, 1);
+    });
+
+    it('should keep the fixed IHT on the monthly salary with duodécimos', () => {
+      const params = { ...input, ihtFixedAmount: 200, subsidyPaymentMode: 'duodecimos' as const };
+      const proposal = service.calculateProposal(params, 30000, 0);
+
+      expect(proposal.monthlyIHT).toBe(200);
+      expect(service.toSimulationResult(proposal, params).IHT).toBe(200);
+    });
+
+    it('should not warn for a proposal above the legal minimums', () => {
+      expect(service.calculateProposal(input, 30000, 0).warnings).toEqual([]);
+    });
+
+    it('should warn when the base salary is below the minimum wage', () => {
+      const proposal = service.calculateProposal(input, 15000, 0);
+
+      expect(proposal.monthlyBaseSalary).toBeLessThan(920);
+      expect(proposal.warnings.map(w => w.code)).toContain('base_salary_below_minimum_wage');
+    });
+
+    it('should warn when the IHT is below the minimum of its category', () => {
+      // 10% of the base salary < 1 hour of overtime per day (~15.6%)
+      const proposal = service.calculateProposal({ ...input, ihtPercentage: 10 }, 30000, 0);
+      expect(proposal.warnings.map(w => w.code)).toEqual(['iht_below_legal_minimum']);
+
+      // 2 hours of overtime per week (~6.6%) are covered by 10%
+      const extended = service.calculateProposal({ ...input, ihtPercentage: 10, ihtCategory: 'extended_hours' }, 30000, 0);
+      expect(extended.warnings).toEqual([]);
+    });
+
+    it('should not check the IHT minimum when there is no IHT', () => {
+      expect(service.calculateProposal({ ...input, ihtPercentage: 0 }, 30000, 0).warnings).toEqual([]);
+    });
+  });
+
+  it('should pass the worker parameters to every IRS calculation', () => {
+    service.calculateProposal({ ...input, dependents: 2, hasDisability: true, taxRegime: 'ifici' }, 30000, 10);
+
+    const inputs = mockIrsService.calculate.calls.allArgs().map(([irsInput]) => irsInput);
+    expect(inputs.every(irsInput => irsInput.dependents === 2 && irsInput.hasDisability && irsInput.taxRegime === 'ifici')).toBeTrue();
+  });
+
+  describe('Holiday and Christmas subsidies', () => {
+    it('should pay each subsidy in full in June / November by default', () => {
+      const proposal = service.calculateProposal(input, 30000, 0);
+      const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+
+      expect(proposal.subsidies.monthlyAmount).toBe(0);
+      expect(proposal.subsidies.lumpSumAmount).toBeCloseTo(gross, 1);
+      expect(proposal.subsidies.lumpSumIrs).toBeCloseTo(gross * 0.1, 1);
+    });
+
+    it('should pay 1/12 of each subsidy every month with duodécimos', () => {
+      const proposal = service.calculateProposal({ ...input, subsidyPaymentMode: 'duodecimos' }, 30000, 0);
+      const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+
+      expect(proposal.subsidies.monthlyAmount).toBeCloseTo(gross / 12, 1);
+      expect(proposal.subsidies.lumpSumAmount).toBe(0);
+      // The subsidies are withheld on their own, not added to the salary
+      expect(proposal.irs).toBeCloseTo(gross * 0.1, 1);
+      expect(proposal.totalNetMax).toBeCloseTo(gross * 0.79 + (2 * gross * 0.79) / 12 + 220, 1);
+    });
+
+    it('should split each subsidy half in duodécimos, half in June / November', () => {
+      const proposal = service.calculateProposal({ ...input, subsidyPaymentMode: 'half_duodecimos' }, 30000, 0);
+      const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+
+      expect(proposal.subsidies.monthlyAmount).toBeCloseTo(gross / 24, 1);
+      expect(proposal.subsidies.lumpSumAmount).toBeCloseTo(gross / 2, 1);
+    });
+
+    it('should withhold the subsidies at the rate of the monthly remuneration', () => {
+      const params = { ...input, subsidyPaymentMode: 'duodecimos' as const, mealAllowancePaymentMethod: 'cash' as const };
+      const proposal = service.calculateProposal(params, 30000, 0);
+      const subsidyInput = mockIrsService.calculateSubsidy.calls.first().args[0];
+
+      expect(subsidyInput.grossSalary).toBeCloseTo(proposal.monthlyBaseSalary + proposal.monthlyIHT + 84.7, 1);
+      expect(subsidyInput.subsidyAmount).toBeCloseTo((proposal.monthlyBaseSalary + proposal.monthlyIHT) / 12, 1);
+    });
+  });
+
+  describe('toSimulationResult', () => {
+    it('should not split subsidies without duodécimos', () => {
+      const proposal = service.calculateProposal(input, 30000, 0);
+      const result = service.toSimulationResult(proposal, input);
+
+      expect(result.salaryBase).toBe(proposal.monthlyBaseSalary);
+      expect(result.duodecimoSF).toBe(0);
+      expect(result.duodecimoSN).toBe(0);
+      expect(result.subsidyLumpSum).toBe(proposal.subsidies.lumpSumAmount);
+      expect(result.custoAnualParaEmpresa).toBe(proposal.annualCost);
+      expect(result.tableId).toBe('I');
+    });
+
+    it('should show each duodécimo and its IRS on its own line', () => {
+      const params = { ...input, subsidyPaymentMode: 'duodecimos' as const };
+      const proposal = service.calculateProposal(params, 30000, 0);
+      const result = service.toSimulationResult(proposal, params);
+
+      expect(result.salaryBase).toBe(proposal.monthlyBaseSalary);
+      expect(result.duodecimoSF).toBe(proposal.subsidies.monthlyAmount);
+      expect(result.duodecimoSN).toBe(proposal.subsidies.monthlyAmount);
+      expect(result.irsSF).toBe(proposal.subsidies.monthlyIrs);
+      expect(result.irs).toBe(proposal.irs);
+      expect(result.subsidyLumpSum).toBe(0);
+    });
+
+    it('should give the same net salary without IRS Jovem when there is no IRS Jovem', () => {
+      const params = { ...input, subsidyPaymentMode: 'duodecimos' as const, mealAllowancePaymentMethod: 'cash' as const };
+      const result = service.toSimulationResult(service.calculateProposal(params, 30000, 0), params);
+
+      expect(result.netSalaryWithoutIrsJovem).toBe(result.netSalary);
+    });
+
+    it('should round the net salary without IRS Jovem like the net salary', () => {
+      // O mock ignora o IRS Jovem: as duas contas têm de dar o mesmo valor ao cêntimo
+      const params = { ...input, subsidyPaymentMode: 'duodecimos' as const, irsJovem: { careerYear: 2 } };
+      const proposal = service.calculateProposal(params, 30000, 0);
+      mockIrsService.calculate.calls.reset();
+      const result = service.toSimulationResult(proposal, params);
+
+      expect(mockIrsService.calculate.calls.allArgs().some(([irsInput]) => irsInput.irsJovem === undefined)).toBeTrue();
+      expect(result.netSalaryWithoutIrsJovem).toBe(result.netSalary);
+    });
+  });
+
+  describe('IRS bands', () => {
+    const resultForGross = (monthlyGross: number) =>
+      service.toSimulationResult(
+        service.calculateProposal(input, service.calculateAnnualCostForGross(input, monthlyGross, 0), 0),
+        input
+      );
+
+    it('should report the share of an extra euro of cost that reaches the net', () => {
+      const result = resultForGross(2500);
+
+      // Mock: 79% of the gross is net, and each euro of gross costs 1.2375
+      expect(result.marginalRate).toBeCloseTo(79 / 1.2375, 0);
+      expect(result.nextBandDistance).toBeUndefined();
+    });
+
+    it('should report the gross up to the next band limit', () => {
+      mockIrsService.getBandLimits.and.returnValue([1000, 3000]);
+
+      expect(resultForGross(2500).nextBandDistance).toBeCloseTo(500, 1);
+      expect(resultForGross(3500).nextBandDistance).toBeUndefined();
+    });
+
+    it('should flag a proposal just above a limit where a lower gross gives more net', () => {
+      // 30 € more IRS as soon as the gross goes over 2000
+      mockIrsService.getBandLimits.and.returnValue([2000]);
+      mockIrsService.calculate.and.callFake((irsInput) => {
+        const irsWithheld = irsInput.grossSalary * 0.1 + (irsInput.grossSalary > 2000 ? 30 : 0);
+        const socialSecurity = irsInput.grossSalary * (irsInput.socialSecurityRate ?? 0.11);
+        return {
+          tableId: 'I',
+          taxableSalary: irsInput.grossSalary,
+          irsJovemExemption: 0,
+          band: { rate: 0.1, deduction: 0 },
+          rate: 0.1,
+          deduction: 0,
+          additionalPerDependent: 0,
+          irsWithheld,
+          socialSecurity,
+          netSalary: irsInput.grossSalary - irsWithheld - socialSecurity
+        };
+      });
+
+      const [warning] = resultForGross(2010).warnings;
+      expect(warning.code).toBe('band_jump');
+      expect(warning.message).toContain('A monthly gross of 1999.99');
+      expect(resultForGross(2100).warnings).toEqual([]);
+      expect(resultForGross(1990).warnings).toEqual([]);
+    });
+  });
+});
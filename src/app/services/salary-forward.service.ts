@@ -0,0 +1,569 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  CalculateNetSalaryService,
+  IrsInput,
+  LocationPT,
+  MaritalStatus,
+  SubsidyResult,
+  TaxRegime,
+} from './calculate-net-salary-service.service';
+import { IrsAnnualSettlementService } from './irs-annual-settlement.service';
+import { IrsJovem } from './irs-jovem';
+import { MealAllowancePaymentMethod, splitMealAllowance } from './meal-allowance';
+import { IhtCategory, MINIMUM_WAGE, ihtLegalMinimum } from './labour-rules';
+
+/**
+ * Forward proposal engine: from the annual cost for the company to the
+ * monthly payslip, for each share of flexible benefits.
+ *
+ * Cost model (shared with SalaryReverseService, which solves over it):
+ *   annualCost = gross * 14 * (1 + TSU) + benefits * 12
+ *              + exempt meal allowance + taxable meal allowance * (1 + TSU)
+ * - gross (base salary + IHT) is paid 12 times plus the holiday and Christmas
+ *   subsidies, in June / November or (partly) in monthly duodécimos
+ * - flexible benefits are paid 12 times and are not subject to TSU
+ * - the meal allowance is paid in "mealAllowanceMonths" months; only the part
+ *   up to the legal limit (card or cash) is exempt, the rest is taxed as salary
+ */
+
+/**
+ * How the holiday (SF) and Christmas (SN) subsidies are paid:
+ * - 'june_november': in full, with the June and November salaries
+ * - 'duodecimos': 1/12 of each subsidy every month
+ * - 'half_duodecimos': 50% in duodécimos, the other 50% in June / November
+ */
+export type SubsidyPaymentMode = 'june_november' | 'duodecimos' | 'half_duodecimos';
+
+/** Worker and company parameters shared by the forward and the reverse calculation. */
+export interface ProposalParameters {
+  location: LocationPT;
+  paymentDate?: string; // picks the IRS tables valid on this date
+  maritalStatus: MaritalStatus;
+  dependents: number;
+  dependentsWithDisability?: number;
+  hasDisability?: boolean;
+  subsidyPaymentMode: SubsidyPaymentMode;
+  mealAllowanceDaily: number;
+  mealAllowanceDays: number;
+  mealAllowanceMonths: number;
+  mealAllowancePaymentMethod?: MealAllowancePaymentMethod; // default 'card'
+  ihtPercentage: number; // IHT as a % of the base salary
+  ihtFixedAmount?: number; // monthly IHT in € (14 payments); replaces ihtPercentage when set
+  ihtCategory?: IhtCategory; // default 'unlimited', sets the legal minimum of the IHT
+  tsu: number; // percentage paid by the company, e.g. 23.75
+  ssRate: number; // employee rate, e.g. 0.11
+  irsJovem?: IrsJovem;
+  taxRegime?: TaxRegime;
+  minFlexBenefitsPercentage?: number; // default 0
+  maxFlexBenefitsPercentage?: number; // default 30
+  flexBenefitsStep?: number; // default 5
+}
+
+export interface ForwardCalculationInput extends ProposalParameters {
+  annualCost: number;
+}
+
+export type ProposalWarningCode = 'base_salary_below_minimum_wage' | 'iht_below_legal_minimum' | 'band_jump';
+
+export interface ProposalWarning {
+  code: ProposalWarningCode;
+  message: string;
+}
+
+/**
+ * Payment lines of each subsidy (the holiday and the Christmas subsidy are
+ * the same amount, so one set of values covers both).
+ */
+export interface SubsidyPayments {
+  mode: SubsidyPaymentMode;
+  monthlyAmount: number;            // duodécimo of each subsidy paid every month
+  monthlyIrs: number;
+  monthlySocialSecurity: number;
+  lumpSumAmount: number;            // part of each subsidy paid in June (SF) / November (SN)
+  lumpSumIrs: number;
+  lumpSumSocialSecurity: number;
+}
+
+// Formato intermediário comum para ambos os cálculos
+export interface ProposalData {
+  flexBenefitsPercentage: number;
+  tableId: string;
+  monthlyBaseSalary: number;
+  monthlyIHT: number;
+  monthlyBenefits: number;
+  monthlyMealAllowance: number;
+  monthlyMealAllowanceTaxable: number; // part of the meal allowance above the exempt limit
+  irs: number; // IRS on the monthly salary, without the subsidies
+  socialSecurityMax: number;
+  socialSecurityMin: number;
+  subsidies: SubsidyPayments;
+  totalNetMax: number; // includes the net duodécimos paid every month
+  totalNetMin: number;
+  annualCost: number;
+  warnings: ProposalWarning[]; // legal minimums not met by the proposal
+}
+
+export interface SimulationResult {
+  flexBenefitsPercentage: number;
+  salaryBase: number;
+  IHT: number;
+  tableId: string; // tabela de retenção aplicada (I a VII, ou IFICI)
+  duodecimoSF: number;
+  duodecimoSN: number;
+  irsSF: number;
+  irsSN: number;
+  subsidyLumpSum: number; // each subsidy's part paid in June / November
+  subsidyLumpSumIrs: number;
+  subsidyLumpSumNet: number;
+  irs: number;
+  socialSecurity: number; // on the salary and the duodécimos
+  netSalary: number;
+  netSalaryWithoutIrsJovem: number;
+  monthlyValueToBenefits: number;
+  monthlyMealAllowance: number;
+  monthlyMealAllowanceTaxable: number;
+  totalMax: number;
+  totalMin: number;
+  salaryBaseAndIHT: number;
+  rendimento: number;
+  custoAnualParaEmpresa: number;
+  irsSettlement: number; // acerto anual estimado: > 0 reembolso, < 0 pagamento
+  marginalRate: number; // % of an extra euro of annual cost that reaches the annual net (Max)
+  nextBandDistance?: number; // monthly gross (base + IHT) up to the next IRS band limit; none in the top band
+  warnings: ProposalWarning[];
+}
+
+export const DEFAULT_MIN_FLEX_BENEFITS_PERCENTAGE = 0;
+export const DEFAULT_MAX_FLEX_BENEFITS_PERCENTAGE = 30;
+export const DEFAULT_FLEX_BENEFITS_STEP = 5;
+
+/** Extra annual cost the marginal rate of a proposal is measured over (about 10 € of gross a month). */
+export const MARGINAL_COST_STEP = 120;
+
+// Diferença de líquido que os arredondamentos de cada linha explicam (um cêntimo para cada lado)
+const BAND_JUMP_TOLERANCE = 0.02;
+
+@Injectable({
+  providedIn: 'root'
+})
+export class SalaryForwardService {
+  // Injected by Angular; passed by hand where there is no injector (see salary-services.ts)
+  constructor(
+    private irsService: CalculateNetSalaryService = inject(CalculateNetSalaryService),
+    private settlementService: IrsAnnualSettlementService = inject(IrsAnnualSettlementService),
+  ) {}
+
+  getProposals(input: ForwardCalculationInput): ProposalData[] {
+    return this.getFlexBenefitsPercentages(input).map((percentage) =>
+      this.calculateProposal(input, input.annualCost, percentage),
+    );
+  }
+
+  /** Flexible benefits shares to simulate, e.g. [0, 5, ..., 30]. */
+  getFlexBenefitsPercentages(params: ProposalParameters): number[] {
+    const min = params.minFlexBenefitsPercentage ?? DEFAULT_MIN_FLEX_BENEFITS_PERCENTAGE;
+    const max = params.maxFlexBenefitsPercentage ?? DEFAULT_MAX_FLEX_BENEFITS_PERCENTAGE;
+    const step = params.flexBenefitsStep ?? DEFAULT_FLEX_BENEFITS_STEP;
+    if (!(step > 0)) {
+      throw new Error('flexBenefitsStep must be a number > 0.');
+    }
+
+    const percentages: number[] = [];
+    // Contar os passos evita erros de arredondamento com passos decimais (ex: 2.5)
+    const steps = Math.floor((max - min) / step + 1e-9);
+    for (let i = 0; i <= steps; i++) {
+      percentages.push(Number((min + i * step).toFixed(4)));
+    }
+    return percentages;
+  }
+
+  /**
+   * One proposal for the given annual cost and share (0-100) of flexible benefits.
+   */
+  calculateProposal(
+    params: ProposalParameters,
+    annualCost: number,
+    flexBenefitsPercentage: number,
+  ): ProposalData {
+    // Passo 1: Retirar o subsídio de refeição ao orçamento (a parte acima do limite isento paga TSU)
+    const tsuFactor = params.tsu / 100;
+    const budget = Math.max(0, annualCost - this.getAnnualMealAllowanceCost(params));
+
+    // Passo 2: Repartir o orçamento entre vencimento (com TSU) e benefícios (sem TSU)
+    const normalizedPercentage = flexBenefitsPercentage / 100;
+    const factor =
+      (1 - normalizedPercentage) * (1 + tsuFactor) + normalizedPercentage;
+    const distributable = budget / factor;
+
+    const annualValueToBenefits = distributable * normalizedPercentage;
+    const annualGross = distributable * (1 - normalizedPercentage);
+
+    const monthlyValueToBenefits = annualValueToBenefits / 12;
+    const monthlyGross = annualGross / 14;
+
+    // Passo 3: Separar a IHT do vencimento base
+    const IHT = this.calculateIHT(params, monthlyGross);
+    const valueWithoutIHT = monthlyGross - IHT;
+
+    // O excesso do subsídio de refeição acima do limite isento é tributado como salário
+    const mealAllowance = this.getMonthlyMealAllowanceSplit(params);
+    const taxableGross = monthlyGross + mealAllowance.taxable;
+
+    // Passo 4: Cálculo Max - benefícios não sujeitos a IRS nem SS
+    const calculationMax = this.irsService.calculate(
+      this.toIrsInput(params, taxableGross, params.ssRate),
+    );
+
+    // Passo 5: Cálculo Min - benefícios sujeitos a IRS mas não a SS
+    const calculationMin = this.irsService.calculate(
+      this.toIrsInput(params, taxableGross + monthlyValueToBenefits, 0),
+    );
+    const ssForMin = this.irsService.calculate(
+      this.toIrsInput(params, taxableGross, params.ssRate),
+    ).socialSecurity;
+
+    const netSalaryMin =
+      taxableGross +
+      monthlyValueToBenefits -
+      calculationMin.irsWithheld -
+      ssForMin;
+
+    // Passo 6: Subsídios de férias e de Natal, retidos à parte do vencimento
+    const subsidies = this.calculateSubsidyPayments(params, taxableGross, monthlyGross);
+    const monthlySubsidiesNet = 2 * this.monthlySubsidyNet(subsidies);
+
+    return {
+      flexBenefitsPercentage,
+      tableId: calculationMax.tableId,
+      monthlyBaseSalary: this.roundToCents(valueWithoutIHT),
+      monthlyIHT: this.roundToCents(IHT),
+      monthlyBenefits: this.roundToCents(monthlyValueToBenefits),
+      monthlyMealAllowance: Number((mealAllowance.exempt + mealAllowance.taxable).toFixed(2)),
+      monthlyMealAllowanceTaxable: Number(mealAllowance.taxable.toFixed(2)),
+      irs: this.roundToCents(calculationMax.irsWithheld),
+      socialSecurityMax: this.roundToCents(calculationMax.socialSecurity),
+      socialSecurityMin: this.roundToCents(ssForMin),
+      subsidies,
+      totalNetMax: this.roundToCents(
+        calculationMax.netSalary + monthlySubsidiesNet + mealAllowance.exempt + monthlyValueToBenefits,
+      ),
+      totalNetMin: this.roundToCents(netSalaryMin + monthlySubsidiesNet + mealAllowance.exempt),
+      annualCost: this.roundToCents(
+        this.calculateAnnualCostToCompany(params, monthlyGross, monthlyValueToBenefits),
+      ),
+      warnings: this.checkLegalMinimums(params, this.roundToCents(valueWithoutIHT), this.roundToCents(IHT)),
+    };
+  }
+
+  /**
+   * Annual cost for the company of a monthly gross salary (base + IHT) and
+   * monthly flexible benefits.
+   */
+  calculateAnnualCostToCompany(
+    params: ProposalParameters,
+    grossSalary: number,
+    valueToBenefits: number,
+  ): number {
+    const annualGross = grossSalary * 14;
+    const annualBenefits = valueToBenefits * 12;
+    const tsuFactor = 1 + params.tsu / 100;
+
+    return annualGross * tsuFactor + annualBenefits + this.getAnnualMealAllowanceCost(params);
+  }
+
+  /**
+   * Annual cost of a monthly gross salary (base + IHT) with the flexible
+   * benefits that go with it: the inverse of calculateProposal's split.
+   */
+  calculateAnnualCostForGross(params: ProposalParameters, monthlyGross: number, flexBenefitsPercentage: number): number {
+    const share = flexBenefitsPercentage / 100;
+    const monthlyBenefits = (monthlyGross * 14 * share) / (1 - share) / 12;
+    return this.calculateAnnualCostToCompany(params, monthlyGross, monthlyBenefits);
+  }
+
+  /**
+   * Monthly gross salaries (base + IHT) where the IRS withholding on the
+   * salary changes band, in ascending order (see
+   * CalculateNetSalaryService.getBandLimits).
+   */
+  getGrossBandLimits(params: ProposalParameters): number[] {
+    // A retenção usa o bruto com o subsídio de refeição tributado
+    const mealAllowanceTaxable = this.getMonthlyMealAllowanceSplit(params).taxable;
+    return this.irsService
+      .getBandLimits(this.toIrsInput(params, 0, params.ssRate))
+      .map((limit) => limit - mealAllowanceTaxable);
+  }
+
+  /**
+   * Converts a proposal into the values shown per month, with the duodécimos
+   * and the June / November subsidy payments on their own lines.
+   */
+  toSimulationResult(proposal: ProposalData, params: ProposalParameters): SimulationResult {
+    const baseSalary = Number(proposal.monthlyBaseSalary.toFixed(2));
+    const iht = Number(proposal.monthlyIHT.toFixed(2));
+    const irs = Number(proposal.irs.toFixed(2));
+    const socialSecurityMax = Number(proposal.socialSecurityMax.toFixed(2));
+    const monthlyBenefits = Number(proposal.monthlyBenefits.toFixed(2));
+    const subsidies = proposal.subsidies;
+    const netSalary = this.round2(baseSalary + iht - irs - socialSecurityMax + 2 * this.monthlySubsidyNet(subsidies));
+
+    return {
+      flexBenefitsPercentage: proposal.flexBenefitsPercentage,
+      salaryBase: baseSalary,
+      IHT: iht,
+      tableId: proposal.tableId,
+      duodecimoSF: subsidies.monthlyAmount,
+      duodecimoSN: subsidies.monthlyAmount,
+      irsSF: subsidies.monthlyIrs,
+      irsSN: subsidies.monthlyIrs,
+      subsidyLumpSum: subsidies.lumpSumAmount,
+      subsidyLumpSumIrs: subsidies.lumpSumIrs,
+      subsidyLumpSumNet: this.round2(
+        subsidies.lumpSumAmount - subsidies.lumpSumIrs - subsidies.lumpSumSocialSecurity,
+      ),
+      irs,
+      socialSecurity: this.round2(socialSecurityMax + 2 * subsidies.monthlySocialSecurity),
+      netSalary,
+      netSalaryWithoutIrsJovem: this.calculateNetSalaryWithoutIrsJovem(proposal, params, netSalary),
+      monthlyMealAllowance: Number(proposal.monthlyMealAllowance),
+      monthlyMealAllowanceTaxable: Number(proposal.monthlyMealAllowanceTaxable.toFixed(2)),
+      monthlyValueToBenefits: monthlyBenefits,
+      totalMax: Number(proposal.totalNetMax.toFixed(2)),
+      totalMin: Number(proposal.totalNetMin.toFixed(2)),
+      salaryBaseAndIHT: baseSalary + iht,
+      rendimento: baseSalary + iht + monthlyBenefits,
+      custoAnualParaEmpresa: Number(proposal.annualCost.toFixed(2)),
+      irsSettlement: this.estimateIrsSettlement(proposal, params),
+      marginalRate: this.calculateMarginalRate(proposal, params),
+      nextBandDistance: this.getNextBandDistance(proposal, params),
+      warnings: [...proposal.warnings, ...this.checkBandJump(proposal, params)],
+    };
+  }
+
+  /** Monthly meal allowance split into the exempt part and the part taxed as salary. */
+  getMonthlyMealAllowanceSplit(params: ProposalParameters): { exempt: number; taxable: number } {
+    const daily = splitMealAllowance(params.mealAllowanceDaily, params.mealAllowancePaymentMethod ?? 'card');
+    return {
+      exempt: daily.exempt * params.mealAllowanceDays,
+      taxable: daily.taxable * params.mealAllowanceDays,
+    };
+  }
+
+  /** Annual cost of the meal allowance for the company, including TSU on the taxable part. */
+  getAnnualMealAllowanceCost(params: ProposalParameters): number {
+    const { exempt, taxable } = this.getMonthlyMealAllowanceSplit(params);
+    return (exempt + taxable * (1 + params.tsu / 100)) * params.mealAllowanceMonths;
+  }
+
+  /**
+   * Share (%) of MARGINAL_COST_STEP more annual cost that reaches the worker
+   * as annual net (Max), with the same share of flexible benefits. Low where
+   * the raise crosses into a steeper IRS band.
+   */
+  private calculateMarginalRate(proposal: ProposalData, params: ProposalParameters): number {
+    const raised = this.calculateProposal(
+      params,
+      proposal.annualCost + MARGINAL_COST_STEP,
+      proposal.flexBenefitsPercentage,
+    );
+    return this.round2((100 * (this.annualNetMax(raised) - this.annualNetMax(proposal))) / MARGINAL_COST_STEP);
+  }
+
+  private getNextBandDistance(proposal: ProposalData, params: ProposalParameters): number | undefined {
+    const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+    // Os limites são inclusivos: no próprio limite, qualquer aumento já muda de escalão
+    const nextLimit = this.getGrossBandLimits(params).find((limit) => limit >= gross);
+    return nextLimit === undefined ? undefined : this.round2(nextLimit - gross);
+  }
+
+  /**
+   * Flags a proposal just above an IRS band limit where a gross one cent
+   * below the limit (so a lower cost) gives more net salary (Max).
+   */
+  private checkBandJump(proposal: ProposalData, params: ProposalParameters): ProposalWarning[] {
+    const gross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+    const limit = this.getGrossBandLimits(params).filter((limit) => limit < gross).pop();
+    if (limit === undefined || limit <= 0.01) return [];
+
+    const lowerGross = this.round2(limit - 0.01);
+    const lower = this.calculateProposal(
+      params,
+      this.calculateAnnualCostForGross(params, lowerGross, proposal.flexBenefitsPercentage),
+      proposal.flexBenefitsPercentage,
+    );
+    const extraNet = this.round2(lower.totalNetMax - proposal.totalNetMax);
+    if (extraNet <= BAND_JUMP_TOLERANCE) return [];
+
+    return [
+      {
+        code: 'band_jump',
+        message:
+          `A monthly gross of ${lowerGross.toFixed(2)} (${(gross - lowerGross).toFixed(2)} less, below an IRS band limit) ` +
+          `gives ${extraNet.toFixed(2)} more net salary.`,
+      },
+    ];
+  }
+
+  /** Annual net (Max): 12 months with the duodécimos, plus the subsidies paid in June / November. */
+  private annualNetMax(proposal: ProposalData): number {
+    const { subsidies } = proposal;
+    const lumpSumNet = subsidies.lumpSumAmount - subsidies.lumpSumIrs - subsidies.lumpSumSocialSecurity;
+    return 12 * proposal.totalNetMax + 2 * lumpSumNet;
+  }
+
+  /**
+   * Estimativa do acerto anual de IRS (reembolso / pagamento) para a proposta,
+   * assumindo os benefícios flexíveis isentos (cenário Max).
+   */
+  private estimateIrsSettlement(proposal: ProposalData, params: ProposalParameters): number {
+    const { subsidies } = proposal;
+    const monthlyGross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+    const mealMonths = params.mealAllowanceMonths;
+    const grossIncome = monthlyGross * 14 + proposal.monthlyMealAllowanceTaxable * mealMonths;
+    // Nos meses sem subsídio de refeição a retenção é só sobre o vencimento
+    const irsWithoutMealAllowance =
+      proposal.monthlyMealAllowanceTaxable > 0 && mealMonths < 12
+        ? this.roundToCents(this.irsService.calculate(this.toIrsInput(params, monthlyGross, params.ssRate)).irsWithheld)
+        : proposal.irs;
+    // 12 salários + os dois subsídios (duodécimos e parte paga em junho / novembro)
+    const irsWithheld =
+      proposal.irs * mealMonths +
+      irsWithoutMealAllowance * (12 - mealMonths) +
+      2 * (subsidies.monthlyIrs * 12 + subsidies.lumpSumIrs);
+    const settlement = this.settlementService.estimate({
+      grossIncome,
+      socialSecurityPaid: grossIncome * params.ssRate,
+      irsWithheld,
+      dependents: params.dependents,
+      irsJovem: params.irsJovem,
+      taxRegime: params.taxRegime,
+    });
+    return settlement.balance;
+  }
+
+  /**
+   * Salário líquido da proposta como se o trabalhador não estivesse no IRS Jovem,
+   * para comparar com o valor calculado com o regime (o próprio "netSalary" sem ele).
+   */
+  private calculateNetSalaryWithoutIrsJovem(proposal: ProposalData, params: ProposalParameters, netSalary: number): number {
+    if (params.irsJovem === undefined) return netSalary;
+
+    // O mesmo líquido, menos o IRS que o regime poupa: as duas retenções sobre o mesmo
+    // vencimento e arredondadas da mesma forma (vencimento e duodécimos)
+    const monthlyGross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
+    const taxableGross = monthlyGross + proposal.monthlyMealAllowanceTaxable;
+    const monthlyIrs = (irsParams: ProposalParameters) =>
+      this.roundToCents(this.irsService.calculate(this.toIrsInput(irsParams, taxableGross, params.ssRate)).irsWithheld) +
+      2 * this.calculateSubsidyPayments(irsParams, taxableGross, monthlyGross).monthlyIrs;
+    return this.round2(netSalary + monthlyIrs(params) - monthlyIrs({ ...params, irsJovem: undefined }));
+  }
+
+
+  /**
+   * Splits each subsidy (one month of gross salary) into the duodécimos paid
+   * every month and the part paid in June / November, and withholds IRS and SS
+   * on each line with the rate of the monthly remuneration.
+   */
+  private calculateSubsidyPayments(
+    params: ProposalParameters,
+    monthlyRemuneration: number,
+    subsidyAmount: number,
+  ): SubsidyPayments {
+    const mode = params.subsidyPaymentMode;
+    const monthlyShare = mode === 'duodecimos' ? 1 / 12 : mode === 'half_duodecimos' ? 1 / 24 : 0;
+    const monthly = this.withholdSubsidy(params, monthlyRemuneration, subsidyAmount * monthlyShare);
+    const lumpSum = this.withholdSubsidy(params, monthlyRemuneration, subsidyAmount * (1 - monthlyShare * 12));
+
+    return {
+      mode,
+      monthlyAmount: monthly.subsidyAmount,
+      monthlyIrs: monthly.irsWithheld,
+      monthlySocialSecurity: monthly.socialSecurity,
+      lumpSumAmount: lumpSum.subsidyAmount,
+      lumpSumIrs: lumpSum.irsWithheld,
+      lumpSumSocialSecurity: lumpSum.socialSecurity,
+    };
+  }
+
+  private withholdSubsidy(
+    params: ProposalParameters,
+    monthlyRemuneration: number,
+    amount: number,
+  ): Pick<SubsidyResult, 'subsidyAmount' | 'irsWithheld' | 'socialSecurity'> {
+    if (amount <= 0) {
+      return { subsidyAmount: 0, irsWithheld: 0, socialSecurity: 0 };
+    }
+    return this.irsService.calculateSubsidy({
+      ...this.toIrsInput(params, monthlyRemuneration, params.ssRate),
+      subsidyAmount: amount,
+    });
+  }
+
+  private monthlySubsidyNet(subsidies: SubsidyPayments): number {
+    return subsidies.monthlyAmount - subsidies.monthlyIrs - subsidies.monthlySocialSecurity;
+  }
+
+  /**
+   * IHT paid each month, out of the monthly gross (base salary + IHT).
+   */
+  private calculateIHT(params: ProposalParameters, monthlyGross: number): number {
+    if (params.ihtFixedAmount !== undefined) {
+      if (!(params.ihtFixedAmount >= 0)) {
+        throw new Error('ihtFixedAmount must be a number >= 0.');
+      }
+      return Math.min(params.ihtFixedAmount, monthlyGross);
+    }
+
+    // IHT = p% do Vencimento Base (SB), não do Gross
+    // Se Gross = SB + IHT e IHT = p% × SB, então: IHT = Gross × p / (100 + p)
+    return (monthlyGross * params.ihtPercentage) / (100 + params.ihtPercentage);
+  }
+
+  /**
+   * Checks the base salary against the minimum wage and the IHT against the
+   * minimum of its category (monthly values, without the duodécimos).
+   */
+  private checkLegalMinimums(params: ProposalParameters, baseSalary: number, iht: number): ProposalWarning[] {
+    const warnings: ProposalWarning[] = [];
+
+    if (baseSalary < MINIMUM_WAGE) {
+      warnings.push({
+        code: 'base_salary_below_minimum_wage',
+        message: `Base salary ${baseSalary.toFixed(2)} is below the minimum wage (${MINIMUM_WAGE.toFixed(2)}).`,
+      });
+    }
+
+    const ihtMinimum = this.round2(ihtLegalMinimum(baseSalary, params.ihtCategory ?? 'unlimited'));
+    if (iht > 0 && iht < ihtMinimum) {
+      warnings.push({
+        code: 'iht_below_legal_minimum',
+        message: `IHT ${iht.toFixed(2)} is below the legal minimum for its category (${ihtMinimum.toFixed(2)}).`,
+      });
+    }
+
+    return warnings;
+  }
+
+  private toIrsInput(params: ProposalParameters, grossSalary: number, socialSecurityRate: number): IrsInput {
+    return {
+      grossSalary,
+      maritalStatus: params.maritalStatus,
+      location: params.location,
+      paymentDate: params.paymentDate,
+      irsJovem: params.irsJovem,
+      taxRegime: params.taxRegime,
+      dependents: params.dependents,
+      dependentsWithDisability: params.dependentsWithDisability,
+      hasDisability: params.hasDisability,
+      socialSecurityRate,
+    };
+  }
+
+  private round2(n: number): number {
+    return Math.round((n + Number.EPSILON) * 100) / 100;
+  }
+
+  private roundToCents(value: number): number {
+    return Number((Math.ceil(value * 100) / 100).toFixed(2));
+  }
+}
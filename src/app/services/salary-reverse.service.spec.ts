@@ -1,6 +1,9 @@
 import { TestBed } from '@angular/core/testing';
-import { SalaryReverseService, ReverseCalculationInput } from './salary-reverse.service';
+import { SalaryReverseService, ReverseCalculationInput, ReverseTarget, MAX_ANNUAL_COST, ReverseTargetUnreachableError } from './salary-reverse.service';
 import { CalculateNetSalaryService, IrsResult } from './calculate-net-salary-service.service';
+import { SalaryForwardService } from './salary-forward.service';
+import { IRS_ANNUAL_DATASET, IRS_DATASETS } from '../data/irs-datasets';
+import { IrsAnnualSettlementService } from './irs-annual-settlement.service';
 
 describe('SalaryReverseService', () => {
   let service: SalaryReverseService;
@@ -8,6 +11,8 @@ describe('SalaryReverseService', () => {
 
   const mockIrsResult: IrsResult = {
     tableId: 'I',
+    taxableSalary: 1000,
+    irsJovemExemption: 0,
     band: { rate: 0.1, deduction: 0 },
     rate: 0.1,
     deduction: 0,
@@ -18,11 +23,14 @@ describe('SalaryReverseService', () => {
   };
 
   beforeEach(() => {
-    mockIrsService = jasmine.createSpyObj('CalculateNetSalaryService', ['calculate']);
+    mockIrsService = jasmine.createSpyObj('CalculateNetSalaryService', ['calculate', 'calculateSubsidy', 'getBandLimits']);
+    mockIrsService.getBandLimits.and.returnValue([]);
     
     // Simple dynamic mock: net salary is roughly 80% of gross
     mockIrsService.calculate.and.callFake((input) => ({
       tableId: 'I',
+      taxableSalary: input.grossSalary,
+      irsJovemExemption: 0,
       band: { rate: 0.1, deduction: 0 },
       rate: 0.1,
       deduction: 0,
@@ -31,6 +39,16 @@ describe('SalaryReverseService', () => {
       socialSecurity: input.grossSalary * 0.11,
       netSalary: input.grossSalary * 0.79
     }));
+    mockIrsService.calculateSubsidy.and.callFake((input) => ({
+      tableId: 'I',
+      subsidyAmount: input.subsidyAmount,
+      taxableSubsidy: input.subsidyAmount,
+      irsJovemExemption: 0,
+      rate: 0.1,
+      irsWithheld: input.subsidyAmount * 0.1,
+      socialSecurity: input.subsidyAmount * 0.11,
+      netSubsidy: input.subsidyAmount * 0.79
+    }));
 
     TestBed.configureTestingModule({
       providers: [
@@ -47,11 +65,11 @@ describe('SalaryReverseService', () => {
 
   it('should generate multiple proposals', () => {
     const input: ReverseCalculationInput = {
-      targetNetSalary: 1500,
+      targetValue: 1500,
       location: 'continente',
       maritalStatus: 'single',
       dependents: 0,
-      hasDuodecimos: false,
+      subsidyPaymentMode: 'june_november',
       mealAllowanceDaily: 10,
       mealAllowanceDays: 22,
       mealAllowanceMonths: 11,
@@ -70,11 +88,11 @@ describe('SalaryReverseService', () => {
   it('should solve for target net salary using binary search', () => {
     const targetNet = 1500;
     const input: ReverseCalculationInput = {
-      targetNetSalary: targetNet,
+      targetValue: targetNet,
       location: 'continente',
       maritalStatus: 'single',
       dependents: 0,
-      hasDuodecimos: false,
+      subsidyPaymentMode: 'june_november',
       mealAllowanceDaily: 9.60,
       mealAllowanceDays: 22,
       mealAllowanceMonths: 11,
@@ -86,10 +104,192 @@ describe('SalaryReverseService', () => {
     const proposals = service.getProposals(input);
     const firstProposal = proposals[0];
 
-    // The binary search aims for totalNetMax to be >= targetNetSalary
+    // The binary search aims for totalNetMax to be >= targetValue
     // With our mock netSalary = gross * 0.79, we expect a solution to exist.
     expect(firstProposal.totalNetMax).toBeGreaterThanOrEqual(targetNet - 1); 
     expect(firstProposal.totalNetMax).toBeLessThan(targetNet + 1);
   });
-});
 
+  it('should share the cost model of the forward calculation', () => {
+    const input: ReverseCalculationInput = {
+      targetValue: 1500,
+      location: 'continente',
+      maritalStatus: 'single',
+      dependents: 0,
+      subsidyPaymentMode: 'duodecimos',
+      mealAllowanceDaily: 10,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      ihtPercentage: 25,
+      tsu: 23.75,
+      ssRate: 0.11
+    };
+    const forwardService = TestBed.inject(SalaryForwardService);
+
+    service.getProposals(input).forEach(proposal => {
+      const forward = forwardService.calculateProposal(input, proposal.annualCost, proposal.flexBenefitsPercentage);
+      expect(forward.totalNetMax).toBeCloseTo(proposal.totalNetMax, 1);
+      expect(proposal.totalNetMax).toBeGreaterThanOrEqual(1500);
+    });
+  });
+
+  it('should pass IRS Jovem through to every IRS calculation', () => {
+    service.getProposals({
+      targetValue: 1500,
+      location: 'continente',
+      maritalStatus: 'single',
+      dependents: 0,
+      subsidyPaymentMode: 'june_november',
+      mealAllowanceDaily: 10,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      ihtPercentage: 25,
+      tsu: 23.75,
+      ssRate: 0.11,
+      irsJovem: { careerYear: 2 }
+    });
+
+    const inputs = mockIrsService.calculate.calls.allArgs().map(([input]) => input);
+    expect(inputs.every(input => input.irsJovem?.careerYear === 2)).toBeTrue();
+  });
+
+  it('should pass holder and dependent disability to every IRS calculation', () => {
+    service.getProposals({
+      targetValue: 1500,
+      location: 'continente',
+      maritalStatus: 'single',
+      hasDisability: true,
+      dependents: 2,
+      dependentsWithDisability: 1,
+      subsidyPaymentMode: 'june_november',
+      mealAllowanceDaily: 10,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      ihtPercentage: 25,
+      tsu: 23.75,
+      ssRate: 0.11
+    });
+
+    const inputs = mockIrsService.calculate.calls.allArgs().map(([input]) => input);
+    expect(inputs.every(input => input.hasDisability === true && input.dependentsWithDisability === 1)).toBeTrue();
+  });
+
+  it('should report the table applied in each proposal', () => {
+    const proposals = service.getProposals({
+      targetValue: 1500,
+      location: 'continente',
+      maritalStatus: 'single',
+      dependents: 0,
+      subsidyPaymentMode: 'june_november',
+      mealAllowanceDaily: 10,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      ihtPercentage: 25,
+      tsu: 23.75,
+      ssRate: 0.11
+    });
+
+    expect(proposals.every(proposal => proposal.tableId === 'I')).toBeTrue();
+  });
+
+  describe('with the 2026 tables', () => {
+    const input: ReverseCalculationInput = {
+      targetValue: 1500,
+      location: 'continente',
+      maritalStatus: 'single',
+      dependents: 0,
+      subsidyPaymentMode: 'june_november',
+      mealAllowanceDaily: 10.2,
+      mealAllowanceDays: 22,
+      mealAllowanceMonths: 11,
+      ihtPercentage: 25,
+      tsu: 23.75,
+      ssRate: 0.11
+    };
+    let forwardService: SalaryForwardService;
+
+    beforeEach(() => {
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({});
+      const irsService = TestBed.inject(CalculateNetSalaryService);
+      IRS_DATASETS.forEach((dataset) => irsService.setDataset(dataset));
+      TestBed.inject(IrsAnnualSettlementService).setDataset(IRS_ANNUAL_DATASET);
+      service = TestBed.inject(SalaryReverseService);
+      forwardService = TestBed.inject(SalaryForwardService);
+    });
+
+    // Atinge o objetivo sem o ultrapassar; dez cêntimos a menos no custo já não chegam
+    // (cêntimo a cêntimo o líquido oscila com os arredondamentos de cada linha)
+    const expectLowestCost = (target: ReverseCalculationInput) => {
+      service.getProposals(target).forEach((proposal) => {
+        const cheaper = forwardService.calculateProposal(target, proposal.annualCost - 0.1, proposal.flexBenefitsPercentage);
+        expect(proposal.totalNetMax).toBeGreaterThanOrEqual(target.targetValue);
+        expect(proposal.totalNetMax).toBeLessThan(target.targetValue + 0.02);
+        expect(cheaper.totalNetMax).toBeLessThan(target.targetValue);
+      });
+    };
+
+    it('should reach the target to the cent in every band', () => {
+      [900, 1500, 3456.78, 8000, 12000].forEach((targetValue) => expectLowestCost({ ...input, targetValue }));
+    });
+
+    it('should reach the target with IRS Jovem, duodécimos and dependents', () => {
+      expectLowestCost({ ...input, targetValue: 2000, irsJovem: { careerYear: 2 } });
+      expectLowestCost({ ...input, targetValue: 2000, subsidyPaymentMode: 'duodecimos' });
+      expectLowestCost({ ...input, targetValue: 2500, maritalStatus: 'married_one_holder', dependents: 3 });
+    });
+
+    it('should report a target above the annual cost ceiling', () => {
+      expect(() => service.getProposals({ ...input, targetValue: 60000 })).toThrowError(
+        `The target net salary of 60000.00 cannot be reached with an annual cost up to ${MAX_ANNUAL_COST.toFixed(2)} (0% flexible benefits).`
+      );
+    });
+
+    it('should reach a minimum net salary with the flexible benefits taxed', () => {
+      [1200, 2500, 6000].forEach((targetValue) =>
+        service.getProposals({ ...input, target: 'totalNetMin', targetValue }).forEach((proposal) => {
+          const cheaper = forwardService.calculateProposal(input, proposal.annualCost - 0.1, proposal.flexBenefitsPercentage);
+          expect(proposal.totalNetMin).toBeGreaterThanOrEqual(targetValue);
+          expect(proposal.totalNetMin).toBeLessThan(targetValue + 0.02);
+          expect(cheaper.totalNetMin).toBeLessThan(targetValue);
+        })
+      );
+    });
+
+    it('should keep the gross salary of every proposal', () => {
+      service.getProposals({ ...input, target: 'grossSalary', targetValue: 2500 }).forEach((proposal) => {
+        expect(proposal.monthlyBaseSalary + proposal.monthlyIHT).toBeCloseTo(2500, 2);
+        expect(proposal.flexBenefitsPercentage === 0 || proposal.monthlyBenefits > 0).toBeTrue();
+      });
+    });
+
+    it('should add the IHT on top of a base salary', () => {
+      const [byPercentage] = service.getProposals({ ...input, target: 'baseSalary', targetValue: 2000 });
+      const [byFixedAmount] = service.getProposals({ ...input, ihtFixedAmount: 300, target: 'baseSalary', targetValue: 2000 });
+
+      expect(byPercentage.monthlyBaseSalary).toBe(2000);
+      expect(byPercentage.monthlyIHT).toBe(500);
+      expect(byFixedAmount.monthlyBaseSalary).toBe(2000);
+      expect(byFixedAmount.monthlyIHT).toBe(300);
+    });
+
+    it('should name the target that cannot be reached', () => {
+      expect(() => service.getProposals({ ...input, target: 'baseSalary', targetValue: 60000 })).toThrowError(
+        /^The target base salary of 60000\.00 cannot be reached/
+      );
+      expect(() => service.getProposals({ ...input, target: 'baseSalary', targetValue: 60000 })).toThrowMatching(
+        (error) => error instanceof ReverseTargetUnreachableError && error.code === 'target_unreachable' && error.target === 'baseSalary'
+      );
+    });
+
+    it('should reject an unknown target', () => {
+      expect(() => service.getProposals({ ...input, target: 'annualCost' as ReverseTarget })).toThrowError(
+        'target must be one of totalNetMax, totalNetMin, grossSalary, baseSalary.'
+      );
+    });
+
+    it('should reject a target that is not positive', () => {
+      expect(() => service.getProposals({ ...input, targetValue: 0 })).toThrowError('targetValue must be a number > 0.');
+    });
+  });
+});
@@ -1,137 +1,246 @@
 import { Injectable, inject } from '@angular/core';
-import { CalculateNetSalaryService, MaritalStatus, LocationPT } from './calculate-net-salary-service.service';
-
-export interface ReverseCalculationInput {
-  targetNetSalary: number; // monthly
-  location: LocationPT;
-  maritalStatus: MaritalStatus;
-  dependents: number;
-  hasDuodecimos: boolean;
-  mealAllowanceDaily: number;
-  mealAllowanceDays: number;
-  mealAllowanceMonths: number;
-  ihtPercentage: number;
-  tsu: number;
-  ssRate: number;
+import { ProposalData, ProposalParameters, SalaryForwardService } from './salary-forward.service';
+
+/**
+ * Output of the proposal the reverse calculation solves for: the net salary
+ * with the flexible benefits exempt (Max) or taxed (Min, the worst case), the
+ * gross salary (base + IHT) or the base salary, with the IHT on top.
+ */
+export type ReverseTarget = 'totalNetMax' | 'totalNetMin' | 'grossSalary' | 'baseSalary';
+
+export interface ReverseCalculationInput extends ProposalParameters {
+  target?: ReverseTarget; // default 'totalNetMax'
+  targetValue: number; // monthly
 }
 
-export interface CalculationProposal {
-  flexBenefitsPercentage: number;
-  annualCost: number;
-  monthlyBaseSalary: number;
-  monthlyIHT: number;
-  monthlyBenefits: number;
-  monthlyMealAllowance: number;
-  irs: number;
-  socialSecurityMax: number;
-  socialSecurityMin: number;
-  totalNetMin: number;
-  totalNetMax: number;
+/** Kept for existing callers: the reverse calculation returns the same proposals as the forward one. */
+export type CalculationProposal = ProposalData;
+
+/** Highest annual cost the reverse calculation looks at. */
+export const MAX_ANNUAL_COST = 1_000_000;
+
+// Valor de cada objetivo numa proposta, e o nome usado nas mensagens de erro
+const REVERSE_TARGETS: Record<ReverseTarget, { label: string; valueOf: (proposal: ProposalData) => number }> = {
+  totalNetMax: { label: 'net salary', valueOf: (proposal) => proposal.totalNetMax },
+  totalNetMin: { label: 'minimum net salary', valueOf: (proposal) => proposal.totalNetMin },
+  grossSalary: { label: 'gross salary', valueOf: (proposal) => round2(proposal.monthlyBaseSalary + proposal.monthlyIHT) },
+  baseSalary: { label: 'base salary', valueOf: (proposal) => proposal.monthlyBaseSalary },
+};
+
+// Lowest monthly gross salary tried (the IRS tables need a gross > 0)
+const MIN_MONTHLY_GROSS = 0.01;
+
+// Passos de interpolação dentro de um escalão; só a retenção mínima a 0 € e os
+// arredondamentos ao cêntimo afastam o líquido de uma reta
+const MAX_SEGMENT_STEPS = 20;
+// Maior janela (em cêntimos de custo) revista abaixo da solução no acerto final
+const MAX_CENT_STEPS = 200;
+
+/**
+ * Thrown when the target is above what MAX_ANNUAL_COST pays. The fields let
+ * the UI explain it in its own language; the message is for the API and logs.
+ */
+export class ReverseTargetUnreachableError extends Error {
+  readonly code = 'target_unreachable';
+
+  constructor(
+    readonly target: ReverseTarget,
+    readonly targetValue: number,
+    readonly flexBenefitsPercentage: number,
+  ) {
+    super(
+      `The target ${REVERSE_TARGETS[target].label} of ${targetValue.toFixed(2)} cannot be reached with an annual cost up to ` +
+        `${MAX_ANNUAL_COST.toFixed(2)} (${flexBenefitsPercentage}% flexible benefits).`,
+    );
+    this.name = 'ReverseTargetUnreachableError';
+  }
 }
 
 @Injectable({
   providedIn: 'root'
 })
 export class SalaryReverseService {
-  private irsService = inject(CalculateNetSalaryService);
+  // Injected by Angular; passed by hand where there is no injector (see salary-services.ts)
+  constructor(private forwardService: SalaryForwardService = inject(SalaryForwardService)) {}
 
   getProposals(input: ReverseCalculationInput): CalculationProposal[] {
-    const proposals: CalculationProposal[] = [];
+    if (!(input.targetValue > 0)) {
+      throw new Error('targetValue must be a number > 0.');
+    }
+    if (input.target !== undefined && !Object.hasOwn(REVERSE_TARGETS, input.target)) {
+      throw new Error(`target must be one of ${Object.keys(REVERSE_TARGETS).join(', ')}.`);
+    }
+    return this.forwardService
+      .getFlexBenefitsPercentages(input)
+      .map((percentage) => this.solveForAnnualCost(input, percentage));
+  }
 
-    for (let pct = 0; pct <= 30; pct += 5) {
-      let flexPct = pct == 0 ? 0 : (pct / 100);
-      proposals.push(this.solveForAnnualCost(input, flexPct));
+  /**
+   * Finds the lowest annual cost, to the cent, whose forward proposal reaches
+   * the target (e.g. totalNetMax >= target), so both directions share the
+   * same cost model.
+   *
+   * A gross or base salary gives the monthly gross directly. The net salary
+   * is linear in the monthly gross between two limits of the IRS bands (see
+   * SalaryForwardService.getGrossBandLimits), so the solver picks the band
+   * that holds the target and interpolates inside it. Either way the cent is
+   * settled on the forward calculation. Throws when the target needs more
+   * than MAX_ANNUAL_COST.
+   */
+  private solveForAnnualCost(input: ReverseCalculationInput, flexBenefitsPercentage: number): CalculationProposal {
+    const target = input.target ?? 'totalNetMax';
+    const { valueOf } = REVERSE_TARGETS[target];
+    const maxGross = this.grossForAnnualCost(input, MAX_ANNUAL_COST, flexBenefitsPercentage);
+    const costOf = (gross: number) => this.forwardService.calculateAnnualCostForGross(input, gross, flexBenefitsPercentage);
+
+    if (target === 'grossSalary' || target === 'baseSalary') {
+      // O bruto sai diretamente do objetivo: vencimento base + IHT
+      const gross = target === 'grossSalary' ? input.targetValue : this.grossForBaseSalary(input, input.targetValue);
+      if (gross > maxGross) this.throwUnreachable(input, flexBenefitsPercentage);
+      const costPerCent = costOf(gross + 0.01) - costOf(gross);
+      return this.settleCents(input, flexBenefitsPercentage, costOf(gross), costOf(gross), costPerCent);
     }
 
-    return proposals;
+    const valueAt = (gross: number) => valueOf(this.proposalForGross(input, gross, flexBenefitsPercentage));
+
+    // Passo 1: Limites do escalão em bruto mensal, entre o mínimo e o custo máximo
+    if (!(maxGross > MIN_MONTHLY_GROSS) || valueAt(maxGross) < input.targetValue) {
+      this.throwUnreachable(input, flexBenefitsPercentage);
+    }
+    const limits = [
+      MIN_MONTHLY_GROSS,
+      ...this.grossBandLimits(input, target, flexBenefitsPercentage).filter(
+        (gross) => gross > MIN_MONTHLY_GROSS && gross < maxGross,
+      ),
+      maxGross,
+    ];
+
+    // Passo 2: Primeiro escalão em que o valor chega ao objetivo
+    let low = limits[0];
+    let lowValue = valueAt(low);
+    if (lowValue >= input.targetValue) return this.proposalForGross(input, low, flexBenefitsPercentage);
+
+    let high = maxGross;
+    let highValue = valueAt(high);
+    for (const limit of limits.slice(1)) {
+      const value = valueAt(limit);
+      if (value >= input.targetValue) {
+        high = limit;
+        highValue = value;
+        break;
+      }
+      low = limit;
+      lowValue = value;
+    }
+    // Custo anual de um cêntimo do objetivo neste escalão
+    const costPerCent = (0.01 * (costOf(high) - costOf(low))) / (highValue - lowValue);
+
+    // Passo 3: Dentro do escalão o valor é uma reta: interpolar (e repetir enquanto não bater certo)
+    for (let step = 0; step < MAX_SEGMENT_STEPS && highValue - input.targetValue >= 0.01; step++) {
+      const gross = low + ((input.targetValue - lowValue) * (high - low)) / (highValue - lowValue);
+      if (!(gross > low && gross < high)) break;
+
+      const value = valueAt(gross);
+      if (value >= input.targetValue) {
+        high = gross;
+        highValue = value;
+      } else {
+        low = gross;
+        lowValue = value;
+      }
+    }
+
+    return this.settleCents(input, flexBenefitsPercentage, costOf(low), costOf(high), costPerCent);
   }
 
-  private solveForAnnualCost(input: ReverseCalculationInput, flexPct: number): CalculationProposal {
-    // Binary search to find annualCost
-    let low = 0;
-    let high = 1000000; // 1 million annual cost
-    let mid = 0;
-    let bestResult: CalculationProposal | null = null;
-    
-    // Tolerance of 0.01 in net salary
-    for (let i = 0; i < 50; i++) { // 50 iterations is plenty for binary search to sub-cent precision
-      mid = (low + high) / 2;
-      const result = this.calculateOutputs(input, mid, flexPct);
-      
-      if (result.totalNetMax < input.targetNetSalary) {
-        low = mid;
+  /**
+   * Lowest annual cost, in whole cents, between "lowCost" and "highCost"
+   * whose proposal reaches the target.
+   */
+  private settleCents(
+    input: ReverseCalculationInput,
+    flexBenefitsPercentage: number,
+    lowCost: number,
+    highCost: number,
+    costPerCent: number,
+  ): CalculationProposal {
+    const { valueOf } = REVERSE_TARGETS[input.target ?? 'totalNetMax'];
+    const proposalAt = (cents: number) =>
+      this.forwardService.calculateProposal(input, cents / 100, flexBenefitsPercentage);
+    const reaches = (proposal: ProposalData) => valueOf(proposal) >= input.targetValue;
+
+    // Passo 1: Pesquisa binária em cêntimos entre os dois custos
+    let lowCents = Math.floor(lowCost * 100);
+    let highCents = Math.ceil(highCost * 100);
+    let proposal = proposalAt(highCents);
+    for (let step = 0; step < MAX_CENT_STEPS && !reaches(proposal); step++) {
+      proposal = proposalAt(++highCents);
+    }
+    while (highCents - lowCents > 1) {
+      const midCents = Math.floor((lowCents + highCents) / 2);
+      const mid = proposalAt(midCents);
+      if (reaches(mid)) {
+        highCents = midCents;
+        proposal = mid;
       } else {
-        high = mid;
+        lowCents = midCents;
       }
-      bestResult = result;
     }
 
-    return bestResult!;
+    // Passo 2: Os arredondamentos de cada linha fazem o valor oscilar um cêntimo para cima e para
+    // baixo: procurar um custo mais baixo que ainda chegue, até um cêntimo do objetivo abaixo
+    const window = Math.min(MAX_CENT_STEPS, Math.ceil(costPerCent * 100) + 1);
+    for (let cents = highCents - 1; cents >= highCents - window; cents--) {
+      const cheaper = proposalAt(cents);
+      if (reaches(cheaper)) {
+        // A janela passa a contar a partir do novo custo
+        proposal = cheaper;
+        highCents = cents;
+      }
+    }
+    return proposal;
+  }
+
+  /**
+   * Monthly gross salaries where the IRS withholding of the target changes
+   * band. The net salary Min also withholds on the flexible benefits, which
+   * grow with the gross.
+   */
+  private grossBandLimits(input: ReverseCalculationInput, target: ReverseTarget, flexBenefitsPercentage: number): number[] {
+    const limits = this.forwardService.getGrossBandLimits(input);
+    if (target !== 'totalNetMin') return limits;
+
+    const share = flexBenefitsPercentage / 100;
+    const benefitsPerEuroOfGross = (14 * share) / (1 - share) / 12;
+    return [...limits, ...limits.map((gross) => gross / (1 + benefitsPerEuroOfGross))].sort((a, b) => a - b);
+  }
+
+  /** Monthly gross (base + IHT) of a base salary, with the IHT of the parameters on top. */
+  private grossForBaseSalary(params: ProposalParameters, baseSalary: number): number {
+    if (params.ihtFixedAmount !== undefined) return baseSalary + params.ihtFixedAmount;
+    return baseSalary * (1 + params.ihtPercentage / 100);
   }
 
-  private calculateOutputs(input: ReverseCalculationInput, annualCost: number, flexPct: number): CalculationProposal {
-    const monthsToMultiply = input.hasDuodecimos ? 12 : 14;
-    const annualDailyMealAllowance = input.mealAllowanceDaily * input.mealAllowanceDays * input.mealAllowanceMonths;
-    const monthlyMealAllowance = input.mealAllowanceDaily * input.mealAllowanceDays;
-
-    const valueSubjectToTsu = Math.max(0, annualCost - annualDailyMealAllowance);
-    const totalValueAfterTsu = valueSubjectToTsu / (1 + input.tsu / 100);
-    const monthlyValueToDistribute = totalValueAfterTsu / monthsToMultiply;
-
-    const monthlyValueToBenefits = (totalValueAfterTsu * flexPct) / 12;
-    const monthlyValueWithoutBenefits = monthlyValueToDistribute - monthlyValueToBenefits;
-
-    // IHT = 25% do Vencimento Base (SB), não do Gross
-    // Se Gross = SB + IHT e IHT = p% × SB, então:
-    // Gross = SB + (p/100) × SB = SB × (1 + p/100)
-    // Logo: IHT = Gross × p / (100 + p)
-    const grossSalary = monthlyValueWithoutBenefits;
-    const monthlyIHT = (grossSalary * input.ihtPercentage) / (100 + input.ihtPercentage);
-    const monthlyBaseSalary = grossSalary - monthlyIHT;
-
-    // Max Case (Benefits exempt)
-    const calculationMax = this.irsService.calculate({
-      grossSalary: grossSalary,
-      maritalStatus: input.maritalStatus,
-      location: input.location,
-      dependents: input.dependents,
-      socialSecurityRate: input.ssRate
-    });
-
-    const totalNetMax = calculationMax.netSalary + monthlyMealAllowance + monthlyValueToBenefits;
-
-    // Min Case (Benefits subject to IRS)
-    const calculationMinIRS = this.irsService.calculate({
-      grossSalary: grossSalary + monthlyValueToBenefits,
-      maritalStatus: input.maritalStatus,
-      location: input.location,
-      dependents: input.dependents,
-      socialSecurityRate: 0
-    });
-
-    const ssForMin = this.irsService.calculate({
-      grossSalary: grossSalary,
-      maritalStatus: input.maritalStatus,
-      location: input.location,
-      dependents: input.dependents,
-      socialSecurityRate: input.ssRate
-    }).socialSecurity;
-
-    const netSalaryMin = (grossSalary + monthlyValueToBenefits) - calculationMinIRS.irsWithheld - ssForMin;
-    const totalNetMin = netSalaryMin + monthlyMealAllowance;
-
-    return {
-      flexBenefitsPercentage: flexPct * 100,
-      annualCost: annualCost,
-      monthlyBaseSalary: monthlyBaseSalary,
-      monthlyIHT: monthlyIHT,
-      monthlyBenefits: monthlyValueToBenefits,
-      monthlyMealAllowance: monthlyMealAllowance,
-      irs: calculationMax.irsWithheld,
-      socialSecurityMax: calculationMax.socialSecurity,
-      socialSecurityMin: ssForMin,
-      totalNetMin: totalNetMin,
-      totalNetMax: totalNetMax
-    };
+  private throwUnreachable(input: ReverseCalculationInput, flexBenefitsPercentage: number): never {
+    throw new ReverseTargetUnreachableError(input.target ?? 'totalNetMax', input.targetValue, flexBenefitsPercentage);
   }
+
+  /** Proposal of the forward calculation for a monthly gross salary (base + IHT). */
+  private proposalForGross(params: ProposalParameters, monthlyGross: number, flexBenefitsPercentage: number): ProposalData {
+    return this.forwardService.calculateProposal(
+      params,
+      this.forwardService.calculateAnnualCostForGross(params, monthlyGross, flexBenefitsPercentage),
+      flexBenefitsPercentage,
+    );
+  }
+
+  private grossForAnnualCost(params: ProposalParameters, annualCost: number, flexBenefitsPercentage: number): number {
+    const fixedCost = this.forwardService.calculateAnnualCostForGross(params, 0, flexBenefitsPercentage);
+    const costPerEuroOfGross = this.forwardService.calculateAnnualCostForGross(params, 1, flexBenefitsPercentage) - fixedCost;
+    return (annualCost - fixedCost) / costPerEuroOfGross;
+  }
+}
+
+function round2(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
 }
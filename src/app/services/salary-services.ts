@@ -0,0 +1,18 @@
+import { CalculateNetSalaryService } from './calculate-net-salary-service.service';
+import { IrsAnnualSettlementService } from './irs-annual-settlement.service';
+import { SalaryForwardService } from './salary-forward.service';
+import { SalaryReverseService } from './salary-reverse.service';
+import { SalaryApiService } from './salary-api.service';
+
+/**
+ * The calculation services wired by hand, for Node code that runs without an
+ * Angular injector (the Express API and the salary-sim CLI). The IRS datasets
+ * are registered by SalaryApiService.
+ */
+export function createSalaryApi(): SalaryApiService {
+  const irsService = new CalculateNetSalaryService();
+  const settlementService = new IrsAnnualSettlementService();
+  const forwardService = new SalaryForwardService(irsService, settlementService);
+  const reverseService = new SalaryReverseService(forwardService);
+  return new SalaryApiService(irsService, settlementService, forwardService, reverseService);
+}
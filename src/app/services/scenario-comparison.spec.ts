@@ -0,0 +1,90 @@
+import { commonFlexBenefitsPercentages, compareScenarios } from './scenario-comparison';
+import { SavedScenario } from './scenario.service';
+import { SimulationResult } from './salary-forward.service';
+import { DEFAULT_COMPANY_PROFILE } from './company-profile';
+import { SimulatorState } from '../simulator/simulator-state';
+
+describe('scenario comparison', () => {
+  const { companyName, ...profile } = DEFAULT_COMPANY_PROFILE;
+  const state: SimulatorState = {
+    ...profile,
+    calculateBy: 'annualCost',
+    annualCost: 30000,
+    targetNetSalary: 2000,
+    grossSalary: 2500,
+    baseSalary: 2000,
+    maritalStatus: 'single',
+    hasDisability: false,
+    location: 'continente',
+    dependents: 0,
+    dependentsWithDisability: 0,
+    paymentDate: '',
+    irsJovemCareerYear: 0,
+    taxRegime: 'standard',
+    subsidyPaymentMode: 'june_november',
+    includeMealAllowance: true,
+    ihtType: 'percentage',
+    IhtPercentage: 25,
+    ihtFixedAmount: 0,
+    ihtCategory: 'unlimited'
+  };
+
+  const result = (flexBenefitsPercentage: number, totalMax: number, irs: number): SimulationResult =>
+    ({ flexBenefitsPercentage, totalMax, irs, tableId: 'I', warnings: [] }) as unknown as SimulationResult;
+
+  const scenario = (name: string, overrides: Partial<SimulatorState>, results: SimulationResult[]): SavedScenario => ({
+    id: name,
+    name,
+    savedAt: '2026-10-01T10:00:00.000Z',
+    state: { ...state, ...overrides },
+    results
+  });
+
+  const single = scenario('30k não casado', {}, [result(0, 1500, 200.1), result(10, 1600, 180)]);
+  const married = scenario(
+    '32k casado',
+    { annualCost: 32000, maritalStatus: 'married_two_holders', dependents: 2 },
+    [result(0, 1650.25, 150), result(10, 1750, 130), result(20, 1800, 120)]
+  );
+
+  it('should offer only the flexible benefits shares present in every scenario', () => {
+    expect(commonFlexBenefitsPercentages([married, single])).toEqual([0, 10]);
+    expect(commonFlexBenefitsPercentages([])).toEqual([]);
+  });
+
+  it('should list only the inputs that differ', () => {
+    const comparison = compareScenarios([single, married], 0);
+
+    expect(comparison.names).toEqual(['30k não casado', '32k casado']);
+    expect(comparison.inputs).toEqual([
+      { field: 'annualCost', label: 'Custo anual empresa (€)', values: ['30000', '32000'] },
+      { field: 'maritalStatus', label: 'Estado civil', values: ['Não casado', 'Casado, dois titulares'] },
+      { field: 'dependents', label: 'Dependentes', values: ['0', '2'] }
+    ]);
+  });
+
+  it('should compare the amounts against the first scenario', () => {
+    const comparison = compareScenarios([single, married], 0);
+    const totalMax = comparison.results.find((row) => row.field === 'totalMax')!;
+    const irs = comparison.results.find((row) => row.field === 'irs')!;
+
+    expect(totalMax.values).toEqual([1500, 1650.25]);
+    expect(totalMax.differences).toEqual([0, 150.25]);
+    expect(irs.differences).toEqual([0, -50.1]);
+    expect(comparison.results.some((row) => row.field === 'tableId' || row.field === 'warnings')).toBeFalse();
+  });
+
+  it('should leave out the scenarios without a proposal for the share', () => {
+    const comparison = compareScenarios([married, single], 20);
+    const totalMax = comparison.results.find((row) => row.field === 'totalMax')!;
+
+    expect(totalMax.values).toEqual([1800, undefined]);
+    expect(totalMax.differences).toEqual([0, undefined]);
+  });
+
+  it('should compare two or three scenarios', () => {
+    expect(() => compareScenarios([single], 0)).toThrowError(/Between 2 and 3/);
+    expect(() => compareScenarios([single, married, single, married], 0)).toThrowError(/Between 2 and 3/);
+    expect(compareScenarios([single, married, single], 10).names.length).toBe(3);
+  });
+});
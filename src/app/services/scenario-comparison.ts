@@ -0,0 +1,152 @@
+import { SimulationResult } from './salary-forward.service';
+import { SavedScenario } from './scenario.service';
+import { RESULT_COLUMNS } from './proposal-export';
+import { SimulatorState } from '../simulator/simulator-state';
+
+/**
+ * Side-by-side comparison of two or three saved scenarios for one flexible
+ * benefits share: the inputs that differ between them, and every amount of
+ * the proposal with its difference to the first scenario.
+ */
+
+export const MIN_COMPARED_SCENARIOS = 2;
+export const MAX_COMPARED_SCENARIOS = 3;
+
+export interface ScenarioInputDifference {
+  field: keyof SimulatorState;
+  label: string;
+  values: string[];                  // one per scenario, formatted
+}
+
+export interface ScenarioResultComparison {
+  field: keyof SimulationResult;
+  label: string;
+  values: (number | undefined)[];    // undefined: the scenario has no proposal with this share
+  differences: (number | undefined)[]; // against the first scenario (always 0 for it)
+}
+
+export interface ScenarioComparison {
+  flexBenefitsPercentage: number;
+  names: string[];
+  inputs: ScenarioInputDifference[];
+  results: ScenarioResultComparison[];
+}
+
+const INPUT_LABELS: Record<keyof SimulatorState, string> = {
+  calculateBy: 'Calcular por',
+  annualCost: 'Custo anual empresa (€)',
+  targetNetSalary: 'Salário líquido pretendido (€)',
+  grossSalary: 'Salário bruto pretendido (€)',
+  baseSalary: 'Vencimento base pretendido (€)',
+  maritalStatus: 'Estado civil',
+  hasDisability: 'Titular com deficiência',
+  location: 'Localização',
+  dependents: 'Dependentes',
+  dependentsWithDisability: 'Dependentes com deficiência',
+  paymentDate: 'Data de pagamento',
+  irsJovemCareerYear: 'IRS Jovem (ano)',
+  taxRegime: 'Regime fiscal',
+  subsidyPaymentMode: 'Pagamento dos subsídios',
+  includeMealAllowance: 'Subsídio de refeição',
+  ihtType: 'Tipo de IHT',
+  IhtPercentage: 'IHT (%)',
+  ihtFixedAmount: 'IHT fixo (€)',
+  ihtCategory: 'Categoria IHT',
+  tsu: 'TSU empresa (%)',
+  employeeSocialSecurityRate: 'SS trabalhador (%)',
+  mealAllowanceDaily: 'Subs. refeição diário (€)',
+  mealAllowanceDays: 'Dias de subs. refeição / mês',
+  mealAllowanceMonths: 'Meses de subs. refeição',
+  mealAllowancePaymentMethod: 'Subs. refeição pago em',
+  minFlexBenefitsPercentage: '% Benefícios flexíveis mínima',
+  maxFlexBenefitsPercentage: '% Benefícios flexíveis máxima',
+  flexBenefitsStep: 'Intervalo % benefícios flexíveis',
+};
+
+// Os mesmos textos das opções do formulário
+const OPTION_LABELS: Record<string, string> = {
+  annualCost: 'Custo anual para empresa',
+  targetNetSalary: 'Salário líquido pretendido',
+  targetNetMin: 'Salário líquido mínimo pretendido',
+  grossSalary: 'Salário bruto pretendido',
+  baseSalary: 'Vencimento base pretendido',
+  single: 'Não casado',
+  married_one_holder: 'Casado, único titular',
+  married_two_holders: 'Casado, dois titulares',
+  continente: 'Portugal Continental',
+  acores: 'Açores',
+  madeira: 'Madeira',
+  standard: 'Geral',
+  ifici: 'IFICI / ex-RNH',
+  june_november: 'Junho e novembro',
+  duodecimos: 'Duodécimos',
+  half_duodecimos: '50% em duodécimos',
+  percentage: '% do salário base',
+  fixed: 'Valor fixo mensal',
+  unlimited: 'Sem sujeição aos limites máximos',
+  extended_hours: 'Alargamento do período normal',
+  normal_period: 'Observância dos períodos normais',
+  card: 'Cartão refeição',
+  cash: 'Dinheiro',
+};
+
+/** Flexible benefits shares with a proposal in every scenario, in ascending order. */
+export function commonFlexBenefitsPercentages(scenarios: SavedScenario[]): number[] {
+  const [first, ...others] = scenarios;
+  if (!first) return [];
+  return first.results
+    .map((result) => result.flexBenefitsPercentage)
+    .filter((percentage) => others.every((scenario) => findResult(scenario, percentage)))
+    .sort((a, b) => a - b);
+}
+
+export function compareScenarios(scenarios: SavedScenario[], flexBenefitsPercentage: number): ScenarioComparison {
+  if (scenarios.length < MIN_COMPARED_SCENARIOS || scenarios.length > MAX_COMPARED_SCENARIOS) {
+    throw new Error(`Between ${MIN_COMPARED_SCENARIOS} and ${MAX_COMPARED_SCENARIOS} scenarios can be compared.`);
+  }
+
+  // Passo 1: campos do formulário com valores diferentes
+  const inputs: ScenarioInputDifference[] = [];
+  for (const field of Object.keys(INPUT_LABELS) as (keyof SimulatorState)[]) {
+    const values = scenarios.map((scenario) => formatInput(scenario.state[field]));
+    if (values.some((value) => value !== values[0])) {
+      inputs.push({ field, label: INPUT_LABELS[field], values });
+    }
+  }
+
+  // Passo 2: valores da proposta com a percentagem escolhida e a diferença para o primeiro cenário
+  const proposals = scenarios.map((scenario) => findResult(scenario, flexBenefitsPercentage));
+  const results: ScenarioResultComparison[] = [];
+  for (const field of Object.keys(RESULT_COLUMNS) as (keyof SimulationResult)[]) {
+    if (RESULT_COLUMNS[field].format !== 'currency') continue;
+
+    const values = proposals.map((proposal) => proposal?.[field] as number | undefined);
+    const baseline = values[0];
+    const differences = values.map((value) =>
+      value === undefined || baseline === undefined ? undefined : roundToCents(value - baseline),
+    );
+    results.push({ field, label: RESULT_COLUMNS[field].label, values, differences });
+  }
+
+  return {
+    flexBenefitsPercentage,
+    names: scenarios.map((scenario) => scenario.name),
+    inputs,
+    results,
+  };
+}
+
+function findResult(scenario: SavedScenario, flexBenefitsPercentage: number): SimulationResult | undefined {
+  return scenario.results.find((result) => result.flexBenefitsPercentage === flexBenefitsPercentage);
+}
+
+function formatInput(value: unknown): string {
+  if (value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'number') return String(value).replace('.', ',');
+  return OPTION_LABELS[String(value)] ?? String(value);
+}
+
+function roundToCents(n: number): number {
+  return Math.round((n + Number.EPSILON) * 100) / 100;
+}
@@ -0,0 +1,118 @@
+import { TestBed } from '@angular/core/testing';
+import { PLATFORM_ID } from '@angular/core';
+import { SCENARIOS_STORAGE_KEY, ScenarioService } from './scenario.service';
+import { SimulationResult } from './salary-forward.service';
+import { DEFAULT_COMPANY_PROFILE } from './company-profile';
+import { SimulatorState } from '../simulator/simulator-state';
+
+describe('ScenarioService', () => {
+  const { companyName, ...profile } = DEFAULT_COMPANY_PROFILE;
+  const state: SimulatorState = {
+    ...profile,
+    calculateBy: 'annualCost',
+    annualCost: 30000,
+    targetNetSalary: 2000,
+    grossSalary: 2500,
+    baseSalary: 2000,
+    maritalStatus: 'single',
+    hasDisability: false,
+    location: 'continente',
+    dependents: 0,
+    dependentsWithDisability: 0,
+    paymentDate: '',
+    irsJovemCareerYear: 0,
+    taxRegime: 'standard',
+    subsidyPaymentMode: 'june_november',
+    includeMealAllowance: true,
+    ihtType: 'percentage',
+    IhtPercentage: 25,
+    ihtFixedAmount: 0,
+    ihtCategory: 'unlimited'
+  };
+  const results = [{ flexBenefitsPercentage: 0, totalMax: 1500 } as SimulationResult];
+
+  afterEach(() => localStorage.removeItem(SCENARIOS_STORAGE_KEY));
+
+  function createService(platformId = 'browser'): ScenarioService {
+    TestBed.configureTestingModule({ providers: [{ provide: PLATFORM_ID, useValue: platformId }] });
+    return TestBed.inject(ScenarioService);
+  }
+
+  it('should start without scenarios', () => {
+    expect(createService().list()).toEqual([]);
+  });
+
+  it('should persist a saved scenario with its inputs and results', () => {
+    const scenario = createService().save('  30k não casado ', state, results);
+
+    expect(scenario.name).toBe('30k não casado');
+    expect(scenario.state).toEqual(state);
+    expect(scenario.results).toEqual(results);
+    expect(JSON.parse(localStorage.getItem(SCENARIOS_STORAGE_KEY)!)).toEqual([scenario]);
+  });
+
+  it('should list the most recent first and load them again', () => {
+    const service = createService();
+    const first = service.save('30k não casado', state, results);
+    const second = service.save('32k casado', { ...state, annualCost: 32000 }, results);
+
+    expect(service.list().map((s) => s.id)).toEqual([second.id, first.id]);
+    TestBed.resetTestingModule();
+    expect(createService().list()).toEqual([second, first]);
+  });
+
+  it('should replace a scenario saved again with the same name', () => {
+    const service = createService();
+    const first = service.save('candidato', state, results);
+    const updated = service.save('candidato', { ...state, dependents: 2 }, results);
+
+    expect(updated.id).toBe(first.id);
+    expect(service.list()).toEqual([updated]);
+  });
+
+  it('should not save without a name or without results', () => {
+    const service = createService();
+
+    expect(() => service.save('  ', state, results)).toThrowError(/Scenario name/);
+    expect(() => service.save('x'.repeat(61), state, results)).toThrowError(/Scenario name/);
+    expect(() => service.save('vazio', state, [])).toThrowError(/results/);
+    expect(service.list()).toEqual([]);
+  });
+
+  it('should delete a scenario', () => {
+    const service = createService();
+    const scenario = service.save('30k não casado', state, results);
+
+    service.delete(scenario.id);
+    expect(service.list()).toEqual([]);
+    expect(service.get(scenario.id)).toBeUndefined();
+    expect(JSON.parse(localStorage.getItem(SCENARIOS_STORAGE_KEY)!)).toEqual([]);
+  });
+
+  it('should ignore corrupted stored scenarios', () => {
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, '{not json');
+    expect(createService().list()).toEqual([]);
+
+    TestBed.resetTestingModule();
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify([{ id: 'a' }]));
+    expect(createService().list()).toEqual([]);
+  });
+
+  it('should keep only the valid form fields of a stored state, like a shared link', () => {
+    const scenario = createService().save('30k não casado', state, results);
+    const edited = { ...scenario, state: { ...state, dependents: -1, location: 'madeira', isLoading: true } };
+    localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify([edited]));
+
+    TestBed.resetTestingModule();
+    const { dependents, location, ...validState } = state;
+    expect(createService().list()).toEqual([{ ...scenario, state: validState }]);
+  });
+
+  it('should not touch localStorage on the server', () => {
+    const service = createService('server');
+
+    service.save('30k não casado', state, results);
+    expect(service.list().length).toBe(1);
+    expect(localStorage.getItem(SCENARIOS_STORAGE_KEY)).toBeNull();
+  });
+});
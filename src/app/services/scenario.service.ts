@@ -0,0 +1,114 @@
+import { Injectable, PLATFORM_ID, inject } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
+import { SimulationResult } from './salary-forward.service';
+import { SimulatorState, fromStoredState } from '../simulator/simulator-state';
+
+/**
+ * Named scenarios ("30k não casado", "32k casado, dois titulares"), kept in
+ * localStorage with the inputs and the proposal table they produced, so they
+ * can be compared later without recalculating.
+ */
+
+export interface SavedScenario {
+  id: string;
+  name: string;
+  savedAt: string;                 // ISO date
+  state: Partial<SimulatorState>;  // inputs, the same fields as the shareable link (the valid ones when read back)
+  results: SimulationResult[];     // proposal table as calculated when saved
+}
+
+export const SCENARIOS_STORAGE_KEY = 'salary-simulator.scenarios';
+export const SCENARIO_NAME_MAX_LENGTH = 60;
+
+@Injectable({ providedIn: 'root' })
+export class ScenarioService {
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
+  private scenarios: SavedScenario[] = this.load();
+
+  /** Most recently saved first. */
+  list(): SavedScenario[] {
+    return [...this.scenarios];
+  }
+
+  get(id: string): SavedScenario | undefined {
+    return this.scenarios.find((scenario) => scenario.id === id);
+  }
+
+  /**
+   * Saves the scenario under the given name. A scenario with the same name is
+   * replaced, so saving again after a change updates it.
+   */
+  save(name: string, state: SimulatorState, results: SimulationResult[]): SavedScenario {
+    // Passo 1: validar o nome e os resultados
+    const trimmed = name.trim();
+    if (trimmed === '' || trimmed.length > SCENARIO_NAME_MAX_LENGTH) {
+      throw new Error(`Scenario name must have between 1 and ${SCENARIO_NAME_MAX_LENGTH} characters.`);
+    }
+    if (results.length === 0) {
+      throw new Error('A scenario needs the results of a calculation.');
+    }
+
+    // Passo 2: substituir o cenário com o mesmo nome, mantendo o id
+    const existing = this.scenarios.find((scenario) => scenario.name === trimmed);
+    const scenario: SavedScenario = {
+      id: existing?.id ?? this.newId(),
+      name: trimmed,
+      savedAt: new Date().toISOString(),
+      state: { ...state },
+      results: [...results],
+    };
+
+    // Passo 3: guardar à cabeça da lista
+    this.scenarios = [scenario, ...this.scenarios.filter((s) => s.id !== scenario.id)];
+    this.write();
+    return scenario;
+  }
+
+  delete(id: string): void {
+    this.scenarios = this.scenarios.filter((scenario) => scenario.id !== id);
+    this.write();
+  }
+
+  private newId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private load(): SavedScenario[] {
+    // No localStorage on the server (SSR / prerender)
+    if (!this.isBrowser) return [];
+
+    try {
+      const stored = JSON.parse(localStorage.getItem(SCENARIOS_STORAGE_KEY) ?? '[]');
+      // O localStorage pode ter sido editado: só os campos válidos do formulário, como num link
+      return Array.isArray(stored)
+        ? stored.filter(isSavedScenario).map((scenario) => ({ ...scenario, state: fromStoredState(scenario.state) }))
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(): void {
+    if (!this.isBrowser) return;
+
+    try {
+      localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(this.scenarios));
+    } catch {
+      // Storage full or disabled: the scenarios still last for this session
+    }
+  }
+}
+
+function isSavedScenario(value: unknown): value is SavedScenario {
+  const scenario = value as Partial<SavedScenario> | null;
+  return (
+    typeof scenario === 'object' &&
+    scenario !== null &&
+    typeof scenario.id === 'string' &&
+    typeof scenario.name === 'string' &&
+    typeof scenario.savedAt === 'string' &&
+    typeof scenario.state === 'object' &&
+    scenario.state !== null &&
+    Array.isArray(scenario.results)
+  );
+}
@@ -0,0 +1,145 @@
+import { TestBed } from '@angular/core/testing';
+import { TeamBatchService, TeamParameters, parseTeamCsv, toTeamCsv } from './team-batch.service';
+import { CalculateNetSalaryService } from './calculate-net-salary-service.service';
+import { IrsAnnualSettlementService } from './irs-annual-settlement.service';
+import { IRS_ANNUAL_DATASET, IRS_DATASETS } from '../data/irs-datasets';
+
+describe('TeamBatchService', () => {
+  let service: TeamBatchService;
+
+  const team: TeamParameters = {
+    subsidyPaymentMode: 'june_november',
+    mealAllowanceDaily: 10.2,
+    mealAllowanceDays: 22,
+    mealAllowanceMonths: 11,
+    tsu: 23.75,
+    ssRate: 0.11
+  };
+
+  const csv = [
+    'Nome;Vencimento Base;Custo Anual;Estado Civil;Dependentes;Localização;IHT',
+    'Ana;2000;;Não casado;0;Continente;25',
+    'Rui;;42000;casado_dois_titulares;2;continente;'
+  ].join('\n');
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({});
+    const irsService = TestBed.inject(CalculateNetSalaryService);
+    IRS_DATASETS.forEach((dataset) => irsService.setDataset(dataset));
+    TestBed.inject(IrsAnnualSettlementService).setDataset(IRS_ANNUAL_DATASET);
+    service = TestBed.inject(TeamBatchService);
+  });
+
+  describe('parseTeamCsv', () => {
+    it('should read the employees, with accents and aliases in the header and values', () => {
+      const { members, errors } = parseTeamCsv(csv);
+
+      expect(errors).toEqual([]);
+      expect(members.map(({ columns, ...member }) => member)).toEqual([
+        {
+          line: 2,
+          name: 'Ana',
+          baseSalary: 2000,
+          grossSalary: undefined,
+          annualCost: undefined,
+          maritalStatus: 'single',
+          dependents: 0,
+          location: 'continente',
+          ihtPercentage: 25
+        },
+        {
+          line: 3,
+          name: 'Rui',
+          baseSalary: undefined,
+          grossSalary: undefined,
+          annualCost: 42000,
+          maritalStatus: 'married_two_holders',
+          dependents: 2,
+          location: 'continente',
+          ihtPercentage: 0
+        }
+      ]);
+      expect(members[0].columns['Localização']).toBe('Continente');
+    });
+
+    it('should report every problem of a line and keep the other lines', () => {
+      const { members, errors } = parseTeamCsv(`${csv}\nMau;1000;30000;viúvo;-1;lua;200`);
+
+      expect(members.length).toBe(2);
+      expect(errors).toEqual([
+        {
+          line: 4,
+          message:
+            'indique o vencimento base, o bruto ou o custo anual (só um dos três); estado civil "viúvo" desconhecido; ' +
+            'dependentes tem de ser um número inteiro >= 0; localização "lua" desconhecida; ' +
+            'IHT tem de ser uma percentagem entre 0 e 100'
+        }
+      ]);
+    });
+
+    it('should leave out the regions without retention tables', () => {
+      expect(parseTeamCsv('nome;custo_anual;localizacao\nEva;30000;Madeira').errors).toEqual([
+        { line: 2, message: 'localização "Madeira" ainda sem tabelas de retenção' }
+      ]);
+    });
+
+    it('should read a gross salary column, with the IHT already included', () => {
+      const { members, errors } = parseTeamCsv('nome;bruto;iht\nAna;2500;25\nRui;2500;\nEva;2500;;');
+
+      expect(errors).toEqual([]);
+      expect(members.map((member) => [member.baseSalary, member.grossSalary, member.annualCost])).toEqual([
+        [undefined, 2500, undefined],
+        [undefined, 2500, undefined],
+        [undefined, 2500, undefined]
+      ]);
+      expect(parseTeamCsv('nome;vencimento_base;bruto\nAna;2000;2500').errors).toEqual([
+        { line: 2, message: 'indique o vencimento base, o bruto ou o custo anual (só um dos três)' }
+      ]);
+    });
+
+    it('should require a base salary, a gross salary or an annual cost column', () => {
+      expect(parseTeamCsv('nome;dependentes\nAna;0').errors).toEqual([
+        { line: 1, message: 'Falta a coluna "vencimento_base", "bruto" ou "custo_anual".' }
+      ]);
+      expect(parseTeamCsv('').errors).toEqual([{ line: 1, message: 'O ficheiro está vazio.' }]);
+    });
+  });
+
+  describe('simulate', () => {
+    it('should turn the base salary into the annual cost and add up the team', () => {
+      const batch = service.simulate(parseTeamCsv(csv).members, team);
+      const [ana, rui] = batch.members;
+
+      // (2000 + 25% IHT) × 14 × 1,2375 + 10,20 € × 22 dias × 11 meses
+      expect(ana.result.salaryBase).toBe(2000);
+      expect(ana.result.IHT).toBe(500);
+      expect(ana.result.custoAnualParaEmpresa).toBe(45780.9);
+      expect(rui.result.custoAnualParaEmpresa).toBe(42000);
+      expect(batch.totals).toEqual({
+        employees: 2,
+        monthlyGross: 4781.77,
+        monthlyNet: 3880.95,
+        annualCost: 87780.9,
+        annualNet: 52986.9
+      });
+    });
+
+    it('should turn the gross salary into the annual cost without adding the IHT again', () => {
+      const [ana] = service.simulate(parseTeamCsv('nome;bruto;iht\nAna;2500;25').members, team).members;
+
+      expect(ana.result.salaryBase).toBe(2000);
+      expect(ana.result.IHT).toBe(500);
+      expect(ana.result.custoAnualParaEmpresa).toBe(45780.9);
+    });
+
+    it('should write the uploaded columns, the results and the totals', () => {
+      const lines = toTeamCsv(service.simulate(parseTeamCsv(csv).members, team)).split('\r\n');
+
+      expect(lines[0]).toContain('Localização;IHT;Vencimento Base;IHT (€);Tabela IRS');
+      expect(lines[1]).toBe(
+        'Ana;2000;;Não casado;0;Continente;25;2 000,00;500,00;I;471,34;275,00;1 753,66;224,40;1 978,06;45 780,90;27 019,64;'
+      );
+      expect(lines[3]).toBe('Total (2);;;;;;;;;;;;;;3 880,95;87 780,90;52 986,90;');
+    });
+  });
+});
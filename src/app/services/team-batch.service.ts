@@ -0,0 +1,263 @@
+import { Injectable, inject } from '@angular/core';
+import { LocationPT, MaritalStatus } from './calculate-net-salary-service.service';
+import { PayrollCalendarService } from './payroll-calendar.service';
+import { ProposalParameters, SalaryForwardService, SimulationResult } from './salary-forward.service';
+import { CsvValue, fromCsv, toCsv } from '../utils/csv';
+import { parseNumberPt } from '../utils/number-format';
+import { IRS_DATASET_LOCATIONS } from '../data/irs-datasets';
+
+/**
+ * Simulation of a whole team from a CSV file, one employee per line, for
+ * salary reviews.
+ *
+ * Each employee has one of a monthly base salary ("vencimento_base", IHT on
+ * top), a monthly gross salary ("bruto", base salary + IHT) or an annual cost
+ * for the company; the company parameters (TSU, meal allowance, subsidies)
+ * are the same for everyone. Every line is calculated with the
+ * forward engine without flexible benefits, and the annual net pay comes
+ * from the month-by-month payroll.
+ */
+
+export type TeamParameters = Omit<
+  ProposalParameters,
+  'maritalStatus' | 'dependents' | 'location' | 'ihtPercentage' | 'minFlexBenefitsPercentage' | 'maxFlexBenefitsPercentage'
+>;
+
+export interface TeamMember {
+  line: number;                    // line in the file (the header is line 1)
+  name: string;
+  baseSalary?: number;             // monthly, without IHT
+  grossSalary?: number;            // monthly, base salary + IHT
+  annualCost?: number;
+  maritalStatus: MaritalStatus;
+  dependents: number;
+  location: LocationPT;
+  ihtPercentage: number;
+  columns: Record<string, string>; // the line as uploaded, kept in the download
+}
+
+export interface TeamFileError {
+  line: number;
+  message: string;
+}
+
+export interface TeamMemberResult {
+  member: TeamMember;
+  result: SimulationResult;
+  annualNet: number;               // 12 months, subsidies and meal allowance included
+}
+
+export interface TeamTotals {
+  employees: number;
+  monthlyGross: number;            // base salary + IHT
+  monthlyNet: number;              // total net pay per month (with meal allowance)
+  annualCost: number;
+  annualNet: number;
+}
+
+export interface TeamBatchResult {
+  members: TeamMemberResult[];
+  totals: TeamTotals;
+}
+
+// Nomes aceites para cada coluna (sem acentos, minúsculas, "_" no lugar dos espaços)
+const COLUMN_ALIASES = {
+  name: ['nome', 'name'],
+  baseSalary: ['vencimento_base', 'base_salary'], // sem IHT
+  grossSalary: ['bruto', 'gross', 'gross_salary'], // vencimento base + IHT
+  annualCost: ['custo_anual', 'annual_cost'],
+  maritalStatus: ['estado_civil', 'marital_status'],
+  dependents: ['dependentes', 'dependents'],
+  location: ['localizacao', 'location'],
+  ihtPercentage: ['iht', 'iht_percentage'],
+};
+
+const MARITAL_STATUS_ALIASES: Record<string, MaritalStatus> = {
+  single: 'single',
+  nao_casado: 'single',
+  solteiro: 'single',
+  married_one_holder: 'married_one_holder',
+  casado_unico_titular: 'married_one_holder',
+  casado_um_titular: 'married_one_holder',
+  married_two_holders: 'married_two_holders',
+  casado_dois_titulares: 'married_two_holders',
+};
+
+const LOCATIONS: LocationPT[] = ['continente', 'madeira', 'acores'];
+
+/** Header and example lines of the file to fill in. */
+export const TEAM_CSV_TEMPLATE: CsvValue[][] = [
+  ['nome', 'vencimento_base', 'custo_anual', 'estado_civil', 'dependentes', 'localizacao', 'iht'],
+  ['Ana Silva', '2000', '', 'nao_casado', '0', 'continente', '25'],
+  ['Rui Costa', '', '42000', 'casado_dois_titulares', '2', 'continente', '0'],
+];
+
+export const TEAM_RESULT_COLUMNS = [
+  'Vencimento Base', 'IHT (€)', 'Tabela IRS', 'IRS', 'Segurança Social', 'Salário Líquido',
+  'Subs. Refeição', 'Total Líquido / Mês', 'Custo Anual Empresa', 'Líquido Anual', 'Avisos',
+];
+
+/** The employees in the file, and a message for every line that cannot be used. */
+export function parseTeamCsv(text: string): { members: TeamMember[]; errors: TeamFileError[] } {
+  const [header, ...lines] = fromCsv(text);
+  if (!header) return { members: [], errors: [{ line: 1, message: 'O ficheiro está vazio.' }] };
+
+  const keys = header.map(normalize);
+  const columnOf = (field: keyof typeof COLUMN_ALIASES) =>
+    keys.findIndex((key) => COLUMN_ALIASES[field].includes(key));
+  if (columnOf('baseSalary') < 0 && columnOf('grossSalary') < 0 && columnOf('annualCost') < 0) {
+    return { members: [], errors: [{ line: 1, message: 'Falta a coluna "vencimento_base", "bruto" ou "custo_anual".' }] };
+  }
+
+  const members: TeamMember[] = [];
+  const errors: TeamFileError[] = [];
+  lines.forEach((fields, index) => {
+    const line = index + 2;
+    const value = (field: keyof typeof COLUMN_ALIASES) => fields[columnOf(field)]?.trim() ?? '';
+    const problems: string[] = [];
+
+    // Passo 1: vencimento base, bruto ou custo anual, só um dos três
+    const baseSalary = optionalNumber(value('baseSalary'));
+    const grossSalary = optionalNumber(value('grossSalary'));
+    const annualCost = optionalNumber(value('annualCost'));
+    const amounts = [baseSalary, grossSalary, annualCost].filter((amount) => amount !== undefined);
+    if (amounts.length !== 1) {
+      problems.push('indique o vencimento base, o bruto ou o custo anual (só um dos três)');
+    } else if (!(amounts[0]! > 0)) {
+      problems.push('o vencimento base / bruto / custo anual tem de ser um número maior que 0');
+    }
+
+    // Passo 2: situação pessoal, com os valores por omissão do simulador
+    const maritalStatus = value('maritalStatus') === '' ? 'single' : MARITAL_STATUS_ALIASES[normalize(value('maritalStatus'))];
+    if (!maritalStatus) problems.push(`estado civil "${value('maritalStatus')}" desconhecido`);
+
+    const dependents = optionalNumber(value('dependents')) ?? 0;
+    if (!Number.isInteger(dependents) || dependents < 0) problems.push('dependentes tem de ser um número inteiro >= 0');
+
+    const location = (value('location') === '' ? 'continente' : normalize(value('location'))) as LocationPT;
+    if (!LOCATIONS.includes(location)) {
+      problems.push(`localização "${value('location')}" desconhecida`);
+    } else if (!IRS_DATASET_LOCATIONS.includes(location)) {
+      problems.push(`localização "${value('location')}" ainda sem tabelas de retenção`);
+    }
+
+    const ihtPercentage = optionalNumber(value('ihtPercentage')) ?? 0;
+    if (!(ihtPercentage >= 0 && ihtPercentage <= 100)) problems.push('IHT tem de ser uma percentagem entre 0 e 100');
+
+    if (problems.length > 0) {
+      errors.push({ line, message: problems.join('; ') });
+      return;
+    }
+    members.push({
+      line,
+      name: value('name') || `Linha ${line}`,
+      baseSalary,
+      grossSalary,
+      annualCost,
+      maritalStatus,
+      dependents,
+      location,
+      ihtPercentage,
+      columns: Object.fromEntries(header.map((column, i) => [column, fields[i] ?? ''])),
+    });
+  });
+
+  return { members, errors };
+}
+
+/** The uploaded columns followed by the results, and a line with the team totals. */
+export function toTeamCsv(batch: TeamBatchResult): string {
+  const uploaded = Object.keys(batch.members[0]?.member.columns ?? {});
+  const rows: CsvValue[][] = batch.members.map(({ member, result, annualNet }) => [
+    ...uploaded.map((column) => member.columns[column]),
+    result.salaryBase,
+    result.IHT,
+    result.tableId,
+    result.irs + result.irsSF + result.irsSN,
+    result.socialSecurity,
+    result.netSalary,
+    result.monthlyMealAllowance,
+    result.totalMax,
+    result.custoAnualParaEmpresa,
+    annualNet,
+    result.warnings.map((warning) => warning.message).join(' '),
+  ]);
+
+  const { totals } = batch;
+  const totalsRow: CsvValue[] = [
+    `Total (${totals.employees})`,
+    ...uploaded.slice(1).map(() => null),
+    null, null, null, null, null, null, null,
+    totals.monthlyNet,
+    totals.annualCost,
+    totals.annualNet,
+    null,
+  ];
+  return toCsv([[...uploaded, ...TEAM_RESULT_COLUMNS], ...rows, totalsRow]);
+}
+
+@Injectable({ providedIn: 'root' })
+export class TeamBatchService {
+  private readonly forwardService = inject(SalaryForwardService);
+  private readonly payrollCalendarService = inject(PayrollCalendarService);
+
+  simulate(members: TeamMember[], team: TeamParameters): TeamBatchResult {
+    const results = members.map((member) => this.simulateMember(member, team));
+
+    const sum = (value: (row: TeamMemberResult) => number) =>
+      this.round2(results.reduce((total, row) => total + value(row), 0));
+    return {
+      members: results,
+      totals: {
+        employees: results.length,
+        monthlyGross: sum((row) => row.result.salaryBaseAndIHT),
+        monthlyNet: sum((row) => row.result.totalMax),
+        annualCost: sum((row) => row.result.custoAnualParaEmpresa),
+        annualNet: sum((row) => row.annualNet),
+      },
+    };
+  }
+
+  private simulateMember(member: TeamMember, team: TeamParameters): TeamMemberResult {
+    const params: ProposalParameters = {
+      ...team,
+      maritalStatus: member.maritalStatus,
+      dependents: member.dependents,
+      location: member.location,
+      ihtPercentage: member.ihtPercentage,
+      minFlexBenefitsPercentage: 0,
+      maxFlexBenefitsPercentage: 0,
+    };
+
+    // Passo 1: o bruto (vencimento base + IHT) convertido no custo anual do modelo comum
+    const grossSalary = member.grossSalary ?? (member.baseSalary ?? 0) * (1 + member.ihtPercentage / 100);
+    const annualCost = member.annualCost ?? this.forwardService.calculateAnnualCostToCompany(params, grossSalary, 0);
+
+    // Passo 2: proposta sem benefícios flexíveis e o respetivo calendário anual
+    const proposal = this.forwardService.calculateProposal(params, annualCost, 0);
+    const calendar = this.payrollCalendarService.build(proposal, params);
+
+    return {
+      member,
+      result: this.forwardService.toSimulationResult(proposal, params),
+      annualNet: calendar.totals.net,
+    };
+  }
+
+  private round2(n: number): number {
+    return Math.round((n + Number.EPSILON) * 100) / 100;
+  }
+}
+
+function normalize(text: string): string {
+  return text
+    .trim()
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\s-]+/g, '_');
+}
+
+function optionalNumber(text: string): number | undefined {
+  return text === '' ? undefined : parseNumberPt(text);
+}
@@ -0,0 +1,58 @@
+import { SimulatorState, fromQueryParams, toQueryParams } from './simulator-state';
+import { DEFAULT_COMPANY_PROFILE } from '../services/company-profile';
+
+describe('simulator state in query parameters', () => {
+  const { companyName, ...profile } = DEFAULT_COMPANY_PROFILE;
+  const state: SimulatorState = {
+    ...profile,
+    calculateBy: 'annualCost',
+    annualCost: 35000.5,
+    targetNetSalary: 2000,
+    grossSalary: 2500,
+    baseSalary: 2000,
+    maritalStatus: 'married_two_holders',
+    hasDisability: true,
+    location: 'continente',
+    dependents: 2,
+    dependentsWithDisability: 1,
+    paymentDate: '2026-03-01',
+    irsJovemCareerYear: 3,
+    taxRegime: 'standard',
+    subsidyPaymentMode: 'half_duodecimos',
+    includeMealAllowance: false,
+    ihtType: 'fixed',
+    IhtPercentage: 25,
+    ihtFixedAmount: 150,
+    ihtCategory: 'extended_hours'
+  };
+
+  it('should restore exactly the state it encoded', () => {
+    expect(fromQueryParams(toQueryParams(state))).toEqual(state);
+  });
+
+  it('should return nothing without query parameters', () => {
+    expect(fromQueryParams({})).toEqual({});
+  });
+
+  it('should skip a payment date that does not exist', () => {
+    ['2026-13-45', '2026-02-30'].forEach((paymentDate) => expect(fromQueryParams({ paymentDate })).toEqual({}));
+    expect(fromQueryParams({ paymentDate: '2026-02-28' })).toEqual({ paymentDate: '2026-02-28' });
+  });
+
+  it('should skip invalid values', () => {
+    const restored = fromQueryParams({
+      annualCost: 'abc',
+      dependents: '1.5',
+      maritalStatus: 'divorced',
+      hasDisability: 'yes',
+      paymentDate: '01/03/2026',
+      irsJovemCareerYear: '11',
+      location: 'madeira', // no retention tables yet
+      maxFlexBenefitsPercentage: '100', // no salary left
+      minFlexBenefitsPercentage: '99.5',
+      tsu: '20'
+    });
+
+    expect(restored).toEqual({ minFlexBenefitsPercentage: 99.5, tsu: 20 });
+  });
+});
@@ -0,0 +1,129 @@
+import { Params } from '@angular/router';
+import { LocationPT, MaritalStatus, TaxRegime } from '../services/calculate-net-salary-service.service';
+import { SubsidyPaymentMode } from '../services/salary-forward.service';
+import { CompanyProfile, FLEX_BENEFITS_PERCENTAGE_LIMIT } from '../services/company-profile';
+import { IhtCategory } from '../services/labour-rules';
+import { IRS_DATASET_LOCATIONS } from '../data/irs-datasets';
+import { isIsoDate } from '../utils/iso-date';
+
+/**
+ * Simulator inputs as URL query parameters, so a link reproduces the same
+ * proposal table. The parameter names are the simulator field names.
+ *
+ * Every field is written, including the company parameters: the person who
+ * opens the link may have a different company profile saved. When reading,
+ * values that are missing or invalid are skipped and keep the form default.
+ */
+
+/**
+ * What the simulator calculates from: the annual cost (forward calculation)
+ * or a target of the reverse one. Both net salary modes use targetNetSalary.
+ */
+export type CalculateBy = 'annualCost' | 'targetNetSalary' | 'targetNetMin' | 'grossSalary' | 'baseSalary';
+
+export interface SimulatorState extends Omit<CompanyProfile, 'companyName'> {
+  calculateBy: CalculateBy;
+  annualCost: number;
+  targetNetSalary: number;
+  grossSalary: number;
+  baseSalary: number;
+  maritalStatus: MaritalStatus;
+  hasDisability: boolean;
+  location: LocationPT;
+  dependents: number;
+  dependentsWithDisability: number;
+  paymentDate: string;
+  irsJovemCareerYear: number;
+  taxRegime: TaxRegime;
+  subsidyPaymentMode: SubsidyPaymentMode;
+  includeMealAllowance: boolean;
+  ihtType: 'percentage' | 'fixed';
+  IhtPercentage: number;
+  ihtFixedAmount: number;
+  ihtCategory: IhtCategory;
+}
+
+type FieldParser = (value: string) => unknown;
+
+const number = (min: number, max: number): FieldParser => (value) => {
+  const parsed = Number(value);
+  return value !== '' && Number.isFinite(parsed) && parsed >= min && parsed <= max ? parsed : undefined;
+};
+const integer = (min: number, max: number): FieldParser => (value) => {
+  const parsed = number(min, max)(value);
+  return Number.isInteger(parsed) ? parsed : undefined;
+};
+const flexBenefitsPercentage: FieldParser = (value) => {
+  const parsed = number(0, 100)(value);
+  return typeof parsed === 'number' && parsed < FLEX_BENEFITS_PERCENTAGE_LIMIT ? parsed : undefined;
+};
+const oneOf = (...options: string[]): FieldParser => (value) => (options.includes(value) ? value : undefined);
+const boolean: FieldParser = (value) => (value === 'true' ? true : value === 'false' ? false : undefined);
+const isoDate: FieldParser = (value) => (value === '' || isIsoDate(value) ? value : undefined);
+
+const MARITAL_STATUSES: MaritalStatus[] = ['single', 'married_one_holder', 'married_two_holders'];
+
+const FIELD_PARSERS: Record<keyof SimulatorState, FieldParser> = {
+  calculateBy: oneOf('annualCost', 'targetNetSalary', 'targetNetMin', 'grossSalary', 'baseSalary'),
+  annualCost: number(0, Number.MAX_VALUE),
+  targetNetSalary: number(0, Number.MAX_VALUE),
+  grossSalary: number(0, Number.MAX_VALUE),
+  baseSalary: number(0, Number.MAX_VALUE),
+  maritalStatus: oneOf(...MARITAL_STATUSES),
+  hasDisability: boolean,
+  location: oneOf(...IRS_DATASET_LOCATIONS),
+  dependents: integer(0, 99),
+  dependentsWithDisability: integer(0, 99),
+  paymentDate: isoDate,
+  irsJovemCareerYear: integer(0, 10),
+  taxRegime: oneOf('standard', 'ifici'),
+  subsidyPaymentMode: oneOf('june_november', 'duodecimos', 'half_duodecimos'),
+  includeMealAllowance: boolean,
+  ihtType: oneOf('percentage', 'fixed'),
+  IhtPercentage: number(0, 100),
+  ihtFixedAmount: number(0, Number.MAX_VALUE),
+  ihtCategory: oneOf('unlimited', 'extended_hours', 'normal_period'),
+  tsu: number(0, 100),
+  employeeSocialSecurityRate: number(0, 100),
+  mealAllowanceDaily: number(0, Number.MAX_VALUE),
+  mealAllowanceDays: number(0, 31),
+  mealAllowanceMonths: number(0, 12),
+  mealAllowancePaymentMethod: oneOf('card', 'cash'),
+  minFlexBenefitsPercentage: flexBenefitsPercentage,
+  maxFlexBenefitsPercentage: flexBenefitsPercentage,
+  flexBenefitsStep: number(Number.MIN_VALUE, 100),
+};
+
+export function toQueryParams(state: SimulatorState): Params {
+  const params: Params = {};
+  for (const key of Object.keys(FIELD_PARSERS) as (keyof SimulatorState)[]) {
+    params[key] = String(state[key]);
+  }
+  return params;
+}
+
+/** The valid fields found in the query parameters (empty when there are none). */
+export function fromQueryParams(params: Params): Partial<SimulatorState> {
+  const state: Record<string, unknown> = {};
+  for (const [key, parse] of Object.entries(FIELD_PARSERS)) {
+    const raw = params[key];
+    if (typeof raw !== 'string') continue;
+    const value = parse(raw);
+    if (value !== undefined) state[key] = value;
+  }
+  return state as Partial<SimulatorState>;
+}
+
+/**
+ * The valid fields of a state read back from storage (a saved scenario),
+ * checked with the same field list and parsers as a shared link.
+ */
+export function fromStoredState(stored: object): Partial<SimulatorState> {
+  const params: Params = {};
+  for (const [key, value] of Object.entries(stored)) {
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      params[key] = String(value);
+    }
+  }
+  return fromQueryParams(params);
+}
@@ -1,7 +1,8 @@
 import { ComponentFixture, TestBed, fakeAsync, tick } from '@angular/core/testing';
 import { SimulatorComponent } from './simulator.component';
-import { CalculateNetSalaryService, IrsResult, MaritalStatus } from '../services/calculate-net-salary-service.service';
-import { SalaryReverseService } from '../services/salary-reverse.service';
+import { CalculateNetSalaryService, IrsDatasetNotFoundError, IrsResult, MaritalStatus } from '../services/calculate-net-salary-service.service';
+import { ReverseTargetUnreachableError, SalaryReverseService } from '../services/salary-reverse.service';
+import { Router, provideRouter } from '@angular/router';
 import { of } from 'rxjs';
 
 describe('SimulatorComponent', () => {
@@ -13,6 +14,8 @@ describe('SimulatorComponent', () => {
   // Mock data/results
   const mockIrsResult: IrsResult = {
     tableId: 'I',
+    taxableSalary: 1000,
+    irsJovemExemption: 0,
     band: { rate: 0.1, deduction: 0 },
     rate: 0.1,
     deduction: 0,
@@ -25,26 +28,50 @@ describe('SimulatorComponent', () => {
   const mockProposals = [
     {
       flexBenefitsPercentage: 0,
+      tableId: 'I',
       monthlyBaseSalary: 1000,
       monthlyIHT: 0,
       monthlyBenefits: 0,
       monthlyMealAllowance: 100,
+      monthlyMealAllowanceTaxable: 0,
       irs: 100,
       socialSecurityMax: 110,
       socialSecurityMin: 0,
+      subsidies: {
+        mode: 'june_november' as const,
+        monthlyAmount: 0,
+        monthlyIrs: 0,
+        monthlySocialSecurity: 0,
+        lumpSumAmount: 1000,
+        lumpSumIrs: 100,
+        lumpSumSocialSecurity: 110
+      },
       totalNetMax: 890,
       totalNetMin: 890,
-      annualCost: 14000
+      annualCost: 14000,
+      warnings: []
     }
   ];
 
   beforeEach(async () => {
     // 1. Create spies for services
-    mockIrsService = jasmine.createSpyObj('CalculateNetSalaryService', ['setDataset', 'calculate']);
+    mockIrsService = jasmine.createSpyObj('CalculateNetSalaryService', ['setDataset', 'calculate', 'calculateSubsidy', 'getBandLimits']);
     mockReverseService = jasmine.createSpyObj('SalaryReverseService', ['getProposals']);
 
     // 2. Setup spy return values
+    mockIrsService.setDataset.and.returnValue([]);
+    mockIrsService.getBandLimits.and.returnValue([]);
     mockIrsService.calculate.and.returnValue(mockIrsResult);
+    mockIrsService.calculateSubsidy.and.callFake((input) => ({
+      tableId: 'I',
+      subsidyAmount: input.subsidyAmount,
+      taxableSubsidy: input.subsidyAmount,
+      irsJovemExemption: 0,
+      rate: 0.1,
+      irsWithheld: input.subsidyAmount * 0.1,
+      socialSecurity: input.subsidyAmount * 0.11,
+      netSubsidy: input.subsidyAmount * 0.79
+    }));
     mockReverseService.getProposals.and.returnValue(mockProposals);
 
     await TestBed.configureTestingModule({
@@ -52,6 +79,7 @@ describe('SimulatorComponent', () => {
       providers: [
         { provide: CalculateNetSalaryService, useValue: mockIrsService },
         { provide: SalaryReverseService, useValue: mockReverseService },
+        provideRouter([]),
       ]
     }).compileComponents();
 
@@ -102,50 +130,90 @@ describe('SimulatorComponent', () => {
 
       expect(mockReverseService.getProposals).toHaveBeenCalled();
       expect(component.liquidSalarySimulations.length).toBe(1);
-      expect(component.liquidSalarySimulations[0].salaryBase).toBe(1000); 
+      expect(component.liquidSalarySimulations[0].salaryBase).toBe(1000);
+    }));
+
+    it('should solve for the output chosen in the form', fakeAsync(() => {
+      const targets = [
+        { calculateBy: 'targetNetSalary' as const, target: 'totalNetMax', targetValue: 1500 },
+        { calculateBy: 'targetNetMin' as const, target: 'totalNetMin', targetValue: 1500 },
+        { calculateBy: 'grossSalary' as const, target: 'grossSalary', targetValue: 2600 },
+        { calculateBy: 'baseSalary' as const, target: 'baseSalary', targetValue: 2100 }
+      ];
+      component.targetNetSalary = 1500;
+      component.grossSalary = 2600;
+      component.baseSalary = 2100;
+
+      targets.forEach(({ calculateBy, target, targetValue }) => {
+        component.calculateBy = calculateBy;
+        component.calculate();
+        tick(1500);
+
+        expect(mockReverseService.getProposals).toHaveBeenCalledWith(jasmine.objectContaining({ target, targetValue }));
+        expect(component.calculatedState?.calculateBy).toBe(calculateBy);
+      });
+    }));
+
+    it('should show why a target net salary cannot be reached', fakeAsync(() => {
+      mockReverseService.getProposals.and.throwError(new ReverseTargetUnreachableError('totalNetMax', 60000, 0));
+      component.calculateBy = 'targetNetSalary';
+      component.targetNetSalary = 60000;
+
+      component.calculate();
+      tick(1500);
+      fixture.detectChanges();
+
+      expect(component.isLoading).toBeFalse();
+      expect(component.liquidSalarySimulations).toEqual([]);
+      expect(fixture.nativeElement.querySelector('.alert-danger')?.textContent).toContain(
+        'Não é possível atingir o líquido pretendido de 60 000,00 € com um custo anual até 1 000 000,00 €.'
+      );
+    }));
+
+    it('should explain a payment date without retention tables', fakeAsync(() => {
+      mockIrsService.calculate.and.throwError(new IrsDatasetNotFoundError('continente', '2025-06-01'));
+      component.paymentDate = '2025-06-01';
+
+      component.calculate();
+      tick(1500);
+      fixture.detectChanges();
+
+      expect(component.liquidSalarySimulations).toEqual([]);
+      expect(fixture.nativeElement.querySelector('.alert-danger')?.textContent).toContain(
+        'Ainda não há tabelas de retenção na fonte para a data de pagamento 01/06/2025.'
+      );
     }));
   });
 
   describe('Duodecimos Logic', () => {
-    it('should decompose annual/12 values back to 14 months basis when hasDuodecimos is true', fakeAsync(() => {
-      // Setup specific proposal from the annual cost calculation logic
-      // Assume calculateByAnnualCost returns a proposal with monthlyBase = 1200 (annual/12)
-      // If hasDuodecimos, mapToSimulationResult should convert this 1200 -> 1200 * 12 / 14 = ~1028.57
-      
-      // We can test mapToSimulationResult directly via calculate flow
-      component.calculateBy = 'annualCost'; 
-      component.hasDuodecimos = true;
-      
-      // Force return for calculate call
-      mockIrsService.calculate.and.returnValue({
-          ...mockIrsResult,
-          irsWithheld: 100 // Mock IRS for the split
-      });
+    it('should show the duodécimos and their IRS when the subsidies are paid monthly', fakeAsync(() => {
+      component.calculateBy = 'annualCost';
+      component.subsidyPaymentMode = 'duodecimos';
 
       component.calculate();
       tick(1500);
 
       const result = component.liquidSalarySimulations[0];
-      
-      // Verify decomposing
-      // The component calculates 'monthlyGross' internally in loop. 
-      // If hasDuodecimos is true, getMonthsMultiplier returns 12.
-      // So 'annualGross' is divided by 12. 
-      // Let's check if the result shows the decomposed values.
-      
-      // duodecimoSF should be > 0
+      expect(component.pickedSubsidyPaymentMode).toBe('duodecimos');
       expect(result.duodecimoSF).toBeGreaterThan(0);
-      expect(result.duodecimoSN).toBeGreaterThan(0);
-      
-      // IRS on duo should ideally be > 0 if there was remaining tax
-      // Since we mocked IRS return, we should see it reflected if logic holds
-      // We mocked IRS 100.
-      expect(result.irsSF).toBeDefined(); 
-      expect(result.irsSN).toBeDefined();
+      expect(result.duodecimoSN).toBe(result.duodecimoSF);
+      expect(result.irsSF).toBeCloseTo(result.duodecimoSF * 0.1, 1);
+      expect(result.irsSN).toBe(result.irsSF);
+      expect(result.subsidyLumpSum).toBe(0);
+    }));
+
+    it('should pay half of each subsidy in June / November with 50% duodécimos', fakeAsync(() => {
+      component.subsidyPaymentMode = 'half_duodecimos';
+
+      component.calculate();
+      tick(1500);
+
+      const result = component.liquidSalarySimulations[0];
+      expect(result.subsidyLumpSum).toBeCloseTo(result.duodecimoSF * 12, 0);
     }));
 
-    it('should set duodecimos to 0 when hasDuodecimos is false', fakeAsync(() => {
-      component.hasDuodecimos = false;
+    it('should set duodecimos to 0 when the subsidies are paid in June / November', fakeAsync(() => {
+      component.subsidyPaymentMode = 'june_november';
       
       component.calculate();
       tick(1500);
@@ -155,6 +223,92 @@ describe('SimulatorComponent', () => {
       expect(result.duodecimoSN).toBe(0);
       expect(result.irsSF).toBe(0);
       expect(result.irsSN).toBe(0);
+      expect(result.subsidyLumpSum).toBeCloseTo(result.salaryBaseAndIHT, 1);
+    }));
+  });
+
+  describe('Payroll Calendar', () => {
+    it('should build the 12-month calendar of the picked proposal and hide it when picked again', fakeAsync(() => {
+      component.calculate();
+      tick(1500);
+
+      component.togglePayrollCalendar(10);
+      expect(component.payrollCalendar?.flexBenefitsPercentage).toBe(10);
+      expect(component.payrollCalendar?.months.length).toBe(12);
+
+      component.togglePayrollCalendar(10);
+      expect(component.payrollCalendar).toBeUndefined();
+    }));
+
+    it('should drop the calendar on a new calculation', fakeAsync(() => {
+      component.calculate();
+      tick(1500);
+      component.togglePayrollCalendar(0);
+
+      component.calculate();
+      expect(component.payrollCalendar).toBeUndefined();
+      tick(1500);
+    }));
+  });
+
+  describe('Shareable URL', () => {
+    it('should write the inputs to the query parameters when calculating', fakeAsync(() => {
+      component.annualCost = 42000;
+      component.dependents = 2;
+      component.subsidyPaymentMode = 'duodecimos';
+
+      component.calculate();
+      tick(1500);
+
+      const queryParams = TestBed.inject(Router).routerState.snapshot.root.queryParams;
+      expect(queryParams['annualCost']).toBe('42000');
+      expect(queryParams['dependents']).toBe('2');
+      expect(queryParams['subsidyPaymentMode']).toBe('duodecimos');
+      expect(queryParams['tsu']).toBe('23.75');
+    }));
+
+    it('should restore the inputs from a shared link and calculate', fakeAsync(() => {
+      TestBed.inject(Router).navigate([], {
+        queryParams: { calculateBy: 'targetNetSalary', targetNetSalary: '2500', maritalStatus: 'married_one_holder', tsu: '22.3', dependents: 'x' }
+      });
+      tick();
+
+      component.ngOnInit();
+      expect(component.calculateBy).toBe('targetNetSalary');
+      expect(component.targetNetSalary).toBe(2500);
+      expect(component.maritalStatus).toBe('married_one_holder');
+      expect(component.companyProfile.tsu).toBe(22.3);
+      expect(component.dependents).toBe(0); // invalid values keep the default
+      expect(component.isLoading).toBeTrue();
+
+      tick(1500);
+      expect(mockReverseService.getProposals).toHaveBeenCalled();
+    }));
+  });
+
+  describe('Saved Scenarios', () => {
+    it('should keep the inputs of the last calculation to save with the results', fakeAsync(() => {
+      component.annualCost = 32000;
+      component.calculate();
+      component.annualCost = 50000; // editado depois do cálculo
+      tick(1500);
+
+      expect(component.calculatedState?.annualCost).toBe(32000);
+      expect(component.calculatedState?.tsu).toBe(23.75);
+    }));
+
+    it('should fill the form with a saved scenario and recalculate it', fakeAsync(() => {
+      component.calculate();
+      tick(1500);
+      const state = { ...component.calculatedState!, calculateBy: 'targetNetSalary' as const, targetNetSalary: 2500, tsu: 22.3 };
+
+      component.openScenario({ id: 'a', name: 'a', savedAt: '', state, results: [] });
+      expect(component.targetNetSalary).toBe(2500);
+      expect(component.companyProfile.tsu).toBe(22.3);
+
+      tick(1500);
+      expect(mockReverseService.getProposals).toHaveBeenCalled();
+      expect(component.calculatedState).toEqual(state);
     }));
   });
 
@@ -200,60 +354,194 @@ describe('SimulatorComponent', () => {
     }));
   });
 
-  describe('Marital Status and Dependents Mapping', () => {
+  describe('Company Profile', () => {
+    it('should pass the company parameters to both calculation directions', fakeAsync(() => {
+      component.companyProfile = {
+        ...component.companyProfile,
+        tsu: 22.3,
+        employeeSocialSecurityRate: 10,
+        minFlexBenefitsPercentage: 10,
+        maxFlexBenefitsPercentage: 20,
+        flexBenefitsStep: 10
+      };
+
+      component.calculate();
+      tick(1500);
+
+      expect(component.liquidSalarySimulations.map(r => r.flexBenefitsPercentage)).toEqual([10, 20]);
+      expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({ socialSecurityRate: 0.1 }));
+
+      component.calculateBy = 'targetNetSalary';
+      component.calculate();
+      tick(1500);
+
+      expect(mockReverseService.getProposals).toHaveBeenCalledWith(jasmine.objectContaining({
+        tsu: 22.3,
+        ssRate: 0.1,
+        minFlexBenefitsPercentage: 10,
+        maxFlexBenefitsPercentage: 20,
+        flexBenefitsStep: 10
+      }));
+    }));
+
+    it('should not calculate with an invalid profile', fakeAsync(() => {
+      component.companyProfile = { ...component.companyProfile, flexBenefitsStep: 0 };
+
+      component.calculate();
+      tick(1500);
+
+      expect(component.companyProfileErrors).toEqual(['O passo entre percentagens de benefícios flexíveis tem de ser maior que 0.']);
+      expect(component.liquidSalarySimulations.length).toBe(0);
+      expect(mockIrsService.calculate).not.toHaveBeenCalled();
+    }));
+  });
+
+  describe('IRS Jovem', () => {
+    it('should pass the year of career to the IRS calculation', fakeAsync(() => {
+      component.irsJovemCareerYear = 3;
 
-    it('should map "single" and 0 dependents to Table I', fakeAsync(() => {
-      component.maritalStatus = 'single';
-      component.dependents = 0;
-      
       component.calculate();
       tick(1500);
 
       expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({
-        maritalStatus: 'single',
-        dependents: 0
+        irsJovem: { careerYear: 3 }
       }));
+      expect(component.pickedIrsJovem).toBeTrue();
+      expect(component.liquidSalarySimulations[0].netSalaryWithoutIrsJovem).toBeDefined();
     }));
 
-    it('should map "single" and 2 dependents to Table II', fakeAsync(() => {
-      component.maritalStatus = 'single';
-      component.dependents = 2;
-      
+    it('should not apply IRS Jovem by default', fakeAsync(() => {
+      component.calculate();
+      tick(1500);
+
+      expect(mockIrsService.calculate).not.toHaveBeenCalledWith(jasmine.objectContaining({
+        irsJovem: jasmine.anything()
+      }));
+      expect(component.pickedIrsJovem).toBeFalse();
+    }));
+  });
+
+  describe('IFICI Regime', () => {
+    it('should pass the tax regime to the IRS calculation and drop IRS Jovem', fakeAsync(() => {
+      component.taxRegime = 'ifici';
+      component.irsJovemCareerYear = 1;
+
       component.calculate();
       tick(1500);
 
       expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({
-        maritalStatus: 'single',
-        dependents: 2
+        taxRegime: 'ifici',
+        irsJovem: undefined
       }));
     }));
 
-    it('should map "married" with 1 dependent to "married_one_holder" (Table III)', fakeAsync(() => {
-      component.maritalStatus = 'married';
+    it('should pass the tax regime to the reverse calculation', fakeAsync(() => {
+      component.calculateBy = 'targetNetSalary';
+      component.taxRegime = 'ifici';
+
+      component.calculate();
+      tick(1500);
+
+      expect(mockReverseService.getProposals).toHaveBeenCalledWith(jasmine.objectContaining({
+        taxRegime: 'ifici'
+      }));
+    }));
+  });
+
+  describe('Marital Status, Dependents and Disability', () => {
+    // Every withholding table must be reachable from the form
+    const cases: Array<{ table: string; status: MaritalStatus; dependents: number; hasDisability: boolean }> = [
+      { table: 'I', status: 'single', dependents: 0, hasDisability: false },
+      { table: 'II', status: 'single', dependents: 2, hasDisability: false },
+      { table: 'III', status: 'married_one_holder', dependents: 1, hasDisability: false },
+      { table: 'I', status: 'married_two_holders', dependents: 0, hasDisability: false },
+      { table: 'IV', status: 'married_two_holders', dependents: 0, hasDisability: true },
+      { table: 'V', status: 'single', dependents: 1, hasDisability: true },
+      { table: 'VI', status: 'married_two_holders', dependents: 2, hasDisability: true },
+      { table: 'VII', status: 'married_one_holder', dependents: 0, hasDisability: true },
+    ];
+
+    cases.forEach(({ table, status, dependents, hasDisability }) => {
+      it(`should pass "${status}", ${dependents} dependents, disability ${hasDisability} as is (Table ${table})`, fakeAsync(() => {
+        component.maritalStatus = status;
+        component.dependents = dependents;
+        component.hasDisability = hasDisability;
+
+        component.calculate();
+        tick(1500);
+
+        expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({
+          maritalStatus: status,
+          dependents,
+          hasDisability
+        }));
+      }));
+    });
+
+    it('should not infer the number of holders from the number of dependents', fakeAsync(() => {
+      component.maritalStatus = 'married_two_holders';
       component.dependents = 1;
-      
+
       component.calculate();
       tick(1500);
 
-      expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({
+      expect(mockIrsService.calculate).not.toHaveBeenCalledWith(jasmine.objectContaining({
+        maritalStatus: 'married_one_holder'
+      }));
+    }));
+
+    it('should pass marital status and disability to the reverse calculation', fakeAsync(() => {
+      component.calculateBy = 'targetNetSalary';
+      component.maritalStatus = 'married_one_holder';
+      component.hasDisability = true;
+
+      component.calculate();
+      tick(1500);
+
+      expect(mockReverseService.getProposals).toHaveBeenCalledWith(jasmine.objectContaining({
         maritalStatus: 'married_one_holder',
-        dependents: 1
+        hasDisability: true
       }));
     }));
 
-    it('should map "married" with 2 dependents to "married_two_holders" (Table I/II)', fakeAsync(() => {
-      component.maritalStatus = 'married';
+    it('should pass dependents with disability to both calculations', fakeAsync(() => {
       component.dependents = 2;
-      
+      component.dependentsWithDisability = 1;
+
       component.calculate();
       tick(1500);
 
       expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({
-        maritalStatus: 'married_two_holders',
-        dependents: 2
+        dependents: 2,
+        dependentsWithDisability: 1
+      }));
+
+      component.calculateBy = 'targetNetSalary';
+      component.calculate();
+      tick(1500);
+
+      expect(mockReverseService.getProposals).toHaveBeenCalledWith(jasmine.objectContaining({
+        dependentsWithDisability: 1
       }));
     }));
-  });
-});
 
+    it('should never pass more dependents with disability than dependents', fakeAsync(() => {
+      component.dependents = 1;
+      component.dependentsWithDisability = 3;
 
+      component.calculate();
+      tick(1500);
+
+      expect(mockIrsService.calculate).toHaveBeenCalledWith(jasmine.objectContaining({
+        dependentsWithDisability: 1
+      }));
+    }));
+
+    it('should show the table applied in the results', fakeAsync(() => {
+      component.calculate();
+      tick(1500);
+
+      expect(component.liquidSalarySimulations[0].tableId).toBe('I');
+    }));
+  });
+});
@@ -1,93 +1,147 @@
-import { Component, inject, OnDestroy } from '@angular/core';
+import { Component, inject, OnDestroy, OnInit, PLATFORM_ID } from '@angular/core';
+import { isPlatformBrowser } from '@angular/common';
 import { FormsModule } from '@angular/forms';
+import { ActivatedRoute, Router } from '@angular/router';
 import { NgbAccordionModule } from '@ng-bootstrap/ng-bootstrap';
 import {
   CalculateNetSalaryService,
+  IrsDatasetNotFoundError,
   MaritalStatus,
+  TaxRegime,
 } from '../services/calculate-net-salary-service.service';
-import { SalaryReverseService } from '../services/salary-reverse.service';
+import {
+  MAX_ANNUAL_COST,
+  ReverseTarget,
+  ReverseTargetUnreachableError,
+  SalaryReverseService,
+} from '../services/salary-reverse.service';
+import {
+  ProposalData,
+  ProposalParameters,
+  SalaryForwardService,
+  SimulationResult,
+  SubsidyPaymentMode,
+} from '../services/salary-forward.service';
+import { IrsAnnualSettlementService } from '../services/irs-annual-settlement.service';
+import { PayrollCalendar, PayrollCalendarService } from '../services/payroll-calendar.service';
+import {
+  PROPOSALS_FILE_NAME,
+  ProposalExport,
+  toProposalsCsv,
+  toProposalsXlsx,
+} from '../services/proposal-export';
+import { toOfferLetterPdf } from '../services/offer-letter';
+import { CompanyProfileService } from '../services/company-profile.service';
+import {
+  COMPANY_NAME_MAX_LENGTH,
+  CompanyProfile,
+  CompanyProfileErrorCode,
+  companyProfileParameters,
+  validateCompanyProfile,
+} from '../services/company-profile';
+import { IrsJovem } from '../services/irs-jovem';
+import { MEAL_ALLOWANCE_EXEMPT_LIMITS } from '../services/meal-allowance';
+import { IhtCategory } from '../services/labour-rules';
 import { CurrencyPtPipe } from '../pipes/currency-pt.pipe';
 import { CurrencyMaskDirective } from '../directives/currency-mask.directive';
-import irsData from '../data/irs_2026_continente.json';
-
-interface SimulationResult {
-  flexBenefitsPercentage: number;
-  salaryBase: number;
-  IHT: number;
-  duodecimoSF: number;
-  duodecimoSN: number;
-  irsSF: number;
-  irsSN: number;
-  irs: number;
-  netSalary: number;
-  monthlyValueToBenefits: number;
-  monthlyMealAllowance: number;
-  totalMax: number;
-  totalMin: number;
-  salaryBaseAndIHT: number;
-  rendimento: number;
-  custoAnualParaEmpresa: number;
-}
-
-// Formato intermediário comum para ambos os cálculos
-interface ProposalData {
-  flexBenefitsPercentage: number;
-  monthlyBaseSalary: number;
-  monthlyIHT: number;
-  monthlyBenefits: number;
-  monthlyMealAllowance: number;
-  irs: number;
-  socialSecurityMax: number;
-  socialSecurityMin: number;
-  totalNetMax: number;
-  totalNetMin: number;
-  annualCost: number;
-}
+import { downloadFile } from '../utils/download';
+import { formatNumberPt } from '../utils/number-format';
+import { PayrollCalendarComponent } from '../payroll-calendar/payroll-calendar.component';
+import { ScenariosComponent } from '../scenarios/scenarios.component';
+import { SavedScenario } from '../services/scenario.service';
+import { IRS_DATASET_LOCATIONS, loadIrsDatasets } from '../data/irs-datasets';
+import { CalculateBy, SimulatorState, fromQueryParams, fromStoredState, toQueryParams } from './simulator-state';
+
+// Objetivo do cálculo inverso de cada modo do formulário
+const REVERSE_TARGETS: Record<Exclude<CalculateBy, 'annualCost'>, ReverseTarget> = {
+  targetNetSalary: 'totalNetMax',
+  targetNetMin: 'totalNetMin',
+  grossSalary: 'grossSalary',
+  baseSalary: 'baseSalary',
+};
+
+// Mensagem de cada erro do perfil da empresa ("Configurações")
+const COMPANY_PROFILE_ERROR_MESSAGES: Record<CompanyProfileErrorCode, string> = {
+  invalid_company_name: `O nome da empresa pode ter até ${COMPANY_NAME_MAX_LENGTH} caracteres.`,
+  invalid_tsu: 'A TSU tem de ser uma percentagem entre 0 e 100.',
+  invalid_employee_social_security_rate: 'A Segurança Social do trabalhador tem de ser uma percentagem entre 0 e 100.',
+  invalid_meal_allowance_daily: 'O subsídio de refeição diário tem de ser um valor >= 0.',
+  invalid_meal_allowance_days: 'Os dias de subsídio de refeição têm de estar entre 0 e 31.',
+  invalid_meal_allowance_months: 'Os meses de subsídio de refeição têm de estar entre 0 e 12.',
+  invalid_meal_allowance_payment_method: 'O subsídio de refeição é pago em cartão ou em dinheiro.',
+  invalid_flex_benefits_percentage: 'As percentagens de benefícios flexíveis têm de estar entre 0 e 100 (sem chegar a 100).',
+  inverted_flex_benefits_range: 'A percentagem mínima de benefícios flexíveis não pode ser maior que a máxima.',
+  invalid_flex_benefits_step: 'O passo entre percentagens de benefícios flexíveis tem de ser maior que 0.',
+};
+
+// Nome de cada objetivo nas mensagens de erro
+const REVERSE_TARGET_LABELS: Record<ReverseTarget, string> = {
+  totalNetMax: 'o líquido pretendido',
+  totalNetMin: 'o líquido mínimo pretendido',
+  grossSalary: 'o bruto pretendido',
+  baseSalary: 'o vencimento base pretendido',
+};
 
-type CalculateBy = 'annualCost' | 'targetNetSalary';
-type MaritalStatusOption = 'single' | 'married';
 type LocationOption = 'continente' | 'acores' | 'madeira';
 
 @Component({
   selector: 'app-simulator',
   standalone: true,
-  imports: [FormsModule, NgbAccordionModule, CurrencyPtPipe, CurrencyMaskDirective],
+  imports: [FormsModule, NgbAccordionModule, CurrencyPtPipe, CurrencyMaskDirective, PayrollCalendarComponent, ScenariosComponent],
   templateUrl: './simulator.component.html',
   styleUrl: './simulator.component.scss',
 })
-export class SimulatorComponent implements OnDestroy {
+export class SimulatorComponent implements OnInit, OnDestroy {
   // Loading state
   isLoading = false;
   loadingStatus = '';
+  calculationError = '';
 
   // Calculated values
   annualDailyMealAllowance = 0;
   monthlyMealAllowance = 0;
   pickedIHTPercentage = 0;
+  pickedIhtFixed = false;
 
   // Form inputs
-  hasDuodecimos = false;
-  pickedHasDuodecimos = false;
+  subsidyPaymentMode: SubsidyPaymentMode = 'june_november';
+  pickedSubsidyPaymentMode: SubsidyPaymentMode = 'june_november';
+  pickedIrsJovem = false;
   includeMealAllowance = true;
   IhtPercentage = 25;
+  ihtType: 'percentage' | 'fixed' = 'percentage';
+  ihtFixedAmount = 0; // € por mês, quando ihtType = 'fixed'
+  ihtCategory: IhtCategory = 'unlimited';
   calculateBy: CalculateBy = 'annualCost';
   annualCost = 30000;
   targetNetSalary = 2000;
-  maritalStatus: MaritalStatusOption = 'single';
+  grossSalary = 2500; // vencimento base + IHT
+  baseSalary = 2000;
+  maritalStatus: MaritalStatus = 'single';
+  hasDisability = false; // deficiência do titular (grau >= 60%)
   location: LocationOption = 'continente';
+  readonly availableLocations = IRS_DATASET_LOCATIONS; // regiões com tabelas de retenção
   dependents = 0;
+  dependentsWithDisability = 0; // dependentes com deficiência (grau >= 60%)
+  paymentDate = ''; // vazio = tabelas mais recentes
+  irsJovemCareerYear = 0; // 0 = sem IRS Jovem, 1..10 = ano do regime
+  taxRegime: TaxRegime = 'standard';
 
-  // Constants
-  readonly subsRefeicaoDaily = 10.22;
-  readonly subsRefeicaoDays = 22;
-  readonly subsRefeicaoMonths = 11;
-  readonly tsu = 23.75;
-  readonly segSocialRegimeGeral = 11;
-  readonly maxFlexBenefitsPercentage = 30;
-  readonly flexBenefitsStep = 5;
+  // Company profile (TSU, SS, meal allowance, flex benefits range), editable in "Configurações"
+  companyProfile: CompanyProfile;
+  companyProfileErrors: string[] = [];
+  companyProfileSaved = false;
+  readonly mealAllowanceExemptLimits = MEAL_ALLOWANCE_EXEMPT_LIMITS;
 
   // Results
   liquidSalarySimulations: SimulationResult[] = [];
+  payrollCalendar?: PayrollCalendar; // calendário anual da proposta escolhida
+  isExporting = false;
+  exportError = ''; // o ficheiro pedido não foi gerado
+  calculatedState?: SimulatorState; // entradas do último cálculo, guardadas com os cenários
+  private proposals: ProposalData[] = [];
+  private proposalParameters?: ProposalParameters;
+  private proposalTarget: Pick<ProposalExport, 'calculateBy' | 'target'> = { calculateBy: 'annualCost', target: 0 };
 
   // Discount information
   readonly discounts = {
@@ -102,11 +156,41 @@ export class SimulatorComponent implements OnDestroy {
     'A finalizar...',
   ];
   private readonly irsService = inject(CalculateNetSalaryService);
+  private readonly forwardService = inject(SalaryForwardService);
   private readonly reverseService = inject(SalaryReverseService);
+  private readonly settlementService = inject(IrsAnnualSettlementService);
+  private readonly companyProfileService = inject(CompanyProfileService);
+  private readonly payrollCalendarService = inject(PayrollCalendarService);
+  private readonly route = inject(ActivatedRoute);
+  private readonly router = inject(Router);
+  private readonly isBrowser = isPlatformBrowser(inject(PLATFORM_ID));
   private loadingTimer?: number;
 
   constructor() {
-    this.irsService.setDataset(irsData as any);
+    loadIrsDatasets(this.irsService, this.settlementService);
+    this.companyProfile = this.companyProfileService.get();
+  }
+
+  saveCompanyProfile(): void {
+    this.companyProfileErrors = this.describeCompanyProfileErrors(this.companyProfileService.save(this.getCompanyProfile()));
+    this.companyProfileSaved = this.companyProfileErrors.length === 0;
+  }
+
+  resetCompanyProfile(): void {
+    this.companyProfile = this.companyProfileService.reset();
+    this.companyProfileErrors = [];
+    this.companyProfileSaved = false;
+  }
+
+  ngOnInit(): void {
+    // Link partilhado: repor o formulário (também no prerender) e calcular no browser
+    const state = fromQueryParams(this.route.snapshot.queryParams);
+    if (Object.keys(state).length === 0) return;
+
+    this.applySimulatorState(state);
+    if (this.isBrowser) {
+      this.calculate();
+    }
   }
 
   ngOnDestroy(): void {
@@ -116,7 +200,13 @@ export class SimulatorComponent implements OnDestroy {
   displayedLoadingPhrases: string[] = [];
 
   calculate(): void {
-    this.pickedHasDuodecimos = this.hasDuodecimos;
+    this.companyProfileErrors = this.describeCompanyProfileErrors(validateCompanyProfile(this.getCompanyProfile()));
+    if (this.companyProfileErrors.length > 0) return;
+
+    const state = this.getSimulatorState();
+    this.updateQueryParams(state);
+    this.pickedSubsidyPaymentMode = this.subsidyPaymentMode;
+    this.pickedIrsJovem = this.getIrsJovem() !== undefined;
     this.resetResults();
     this.isLoading = true;
     
@@ -135,316 +225,288 @@ export class SimulatorComponent implements OnDestroy {
       this.clearLoadingTimer();
       
       this.pickedIHTPercentage = this.IhtPercentage;
+      this.pickedIhtFixed = this.ihtType === 'fixed';
       this.annualDailyMealAllowance = this.calculateAnnualMealAllowance();
       this.monthlyMealAllowance = this.calculateMonthlyMealAllowance();
 
-      // Ambos os caminhos geram ProposalData[]
-      let proposals: ProposalData[] =
-        this.calculateBy === 'annualCost'
-          ? this.calculateByAnnualCost()
-          : this.calculateByNetSalaryTarget();
-
-      if (this.calculateBy === 'targetNetSalary') {
-        proposals = proposals.map((p) => this.recalculateAnnualCost(p));
+      // Ambos os caminhos geram ProposalData[] com o mesmo modelo de custo
+      const params = this.getProposalParameters();
+      let proposals: ProposalData[];
+      try {
+        proposals =
+          this.calculateBy === 'annualCost'
+            ? this.forwardService.getProposals({ ...params, annualCost: this.annualCost })
+            : this.reverseService.getProposals({
+                ...params,
+                target: REVERSE_TARGETS[this.calculateBy],
+                targetValue: this.getTargetValue(),
+              });
+      } catch (error) {
+        // Ex.: líquido pretendido que não se atinge dentro do custo máximo
+        this.calculationError = this.describeCalculationError(error);
+        this.isLoading = false;
+        return;
       }
 
       // Conversão unificada para SimulationResult[]
       this.liquidSalarySimulations = proposals.map((proposal) =>
-        this.mapToSimulationResult(proposal),
+        this.forwardService.toSimulationResult(proposal, params),
       );
+      this.proposals = proposals;
+      this.proposalParameters = params;
+      this.calculatedState = state;
+      this.proposalTarget = {
+        calculateBy: this.calculateBy,
+        target: this.getTargetValue(),
+      };
 
       this.isLoading = false;
     }, 1000);
   }
 
-  // Novo método
-  private recalculateAnnualCost(proposal: ProposalData): ProposalData {
-    const monthlyGross = proposal.monthlyBaseSalary + proposal.monthlyIHT;
-    const correctAnnualCost = this.calculateAnnualCostToCompany(
-      monthlyGross,
-      proposal.monthlyBenefits,
-    );
+  /** Shows (or hides, when picked again) the 12-month payroll of one proposal. */
+  togglePayrollCalendar(flexBenefitsPercentage: number): void {
+    if (this.payrollCalendar?.flexBenefitsPercentage === flexBenefitsPercentage) {
+      this.payrollCalendar = undefined;
+      return;
+    }
 
-    return {
-      ...proposal,
-      annualCost: correctAnnualCost,
-    };
+    const proposal = this.proposals.find((p) => p.flexBenefitsPercentage === flexBenefitsPercentage);
+    if (!proposal || !this.proposalParameters) return;
+    this.payrollCalendar = this.payrollCalendarService.build(proposal, this.proposalParameters);
   }
-  private calculateByAnnualCost(): ProposalData[] {
-    const monthsToMultiply = this.getMonthsMultiplier();
-    const tsuFactor = this.tsu / 100;
-    const budget = this.annualCost - this.annualDailyMealAllowance;
-    const proposals: ProposalData[] = [];
-
-    for (
-      let percentage = 0;
-      percentage <= this.maxFlexBenefitsPercentage;
-      percentage += this.flexBenefitsStep
-    ) {
-      const normalizedPercentage = percentage / 100;
-      const factor =
-        (1 - normalizedPercentage) * (1 + tsuFactor) + normalizedPercentage;
-      const distributable = budget / factor;
-
-      const annualValueToBenefits = distributable * normalizedPercentage;
-      const annualGross = distributable * (1 - normalizedPercentage);
-
-      const monthlyValueToBenefits = annualValueToBenefits / 12;
-      const monthlyGross = annualGross / monthsToMultiply;
-
-      const IHT = this.calculateIHT(monthlyGross);
-      const valueWithoutIHT = monthlyGross - IHT;
-
-      const mappedMaritalStatus = this.getMappedMaritalStatus();
-
-      // Cálculo Max: Benefits não sujeitos a IRS nem SS
-      const calculationMax = this.irsService.calculate({
-        grossSalary: monthlyGross,
-        maritalStatus: mappedMaritalStatus,
-        location: this.location,
-        dependents: Number(this.dependents) || 0,
-        socialSecurityRate: this.segSocialRegimeGeral / 100,
-      });
 
-      // Cálculo Min: Benefits sujeitos a IRS mas não SS
-      const calculationMin = this.irsService.calculate({
-        grossSalary: monthlyGross + monthlyValueToBenefits,
-        maritalStatus: mappedMaritalStatus,
-        location: this.location,
-        dependents: Number(this.dependents) || 0,
-        socialSecurityRate: 0,
-      });
+  /** Fills the form with a saved scenario and recalculates it with the current tables. */
+  openScenario(scenario: SavedScenario): void {
+    this.applySimulatorState(fromStoredState(scenario.state));
+    this.calculate();
+  }
 
-      const ssForMin = this.irsService.calculate({
-        grossSalary: monthlyGross,
-        maritalStatus: mappedMaritalStatus,
-        location: this.location,
-        dependents: Number(this.dependents) || 0,
-        socialSecurityRate: this.segSocialRegimeGeral / 100,
-      }).socialSecurity;
-
-      const netSalaryMin =
-        monthlyGross +
-        monthlyValueToBenefits -
-        calculationMin.irsWithheld -
-        ssForMin;
-
-      const custoAnualParaEmpresa = this.calculateAnnualCostToCompany(
-        monthlyGross,
-        monthlyValueToBenefits,
-      );
+  exportCsv(): void {
+    const data = this.getProposalExport();
+    if (!data) return;
+    const csv = toProposalsCsv(data);
+    downloadFile(new Blob([csv], { type: 'text/csv;charset=utf-8' }), `${PROPOSALS_FILE_NAME}.csv`);
+  }
 
-      // Formato ProposalData padronizado
-      proposals.push({
-        flexBenefitsPercentage: percentage,
-        monthlyBaseSalary: this.roundToCents(valueWithoutIHT),
-        monthlyIHT: this.roundToCents(IHT),
-        monthlyBenefits: this.roundToCents(monthlyValueToBenefits),
-        monthlyMealAllowance: this.monthlyMealAllowance,
-        irs: this.roundToCents(calculationMax.irsWithheld),
-        socialSecurityMax: this.roundToCents(calculationMax.socialSecurity),
-        socialSecurityMin: this.roundToCents(ssForMin),
-        totalNetMax: this.roundToCents(
-          calculationMax.netSalary +
-            this.monthlyMealAllowance +
-            monthlyValueToBenefits,
-        ),
-        totalNetMin: this.roundToCents(
-          netSalaryMin + this.monthlyMealAllowance,
-        ),
-        annualCost: this.roundToCents(custoAnualParaEmpresa),
-      });
+  async exportXlsx(): Promise<void> {
+    const data = this.getProposalExport();
+    if (!data) return;
+
+    this.isExporting = true;
+    this.exportError = '';
+    try {
+      downloadFile(await toProposalsXlsx(data), `${PROPOSALS_FILE_NAME}.xlsx`);
+    } catch {
+      this.exportError = 'Não foi possível gerar o ficheiro Excel. Tente novamente.';
+    } finally {
+      this.isExporting = false;
     }
+  }
 
-    return proposals;
+  async generateOfferLetter(result: SimulationResult): Promise<void> {
+    if (!this.proposalParameters) return;
+
+    this.isExporting = true;
+    this.exportError = '';
+    try {
+      const pdf = await toOfferLetterPdf({
+        companyName: this.getCompanyProfile().companyName,
+        date: new Date(),
+        subsidyPaymentMode: this.proposalParameters.subsidyPaymentMode,
+        result,
+      });
+      downloadFile(pdf, `proposta-${result.flexBenefitsPercentage}.pdf`);
+    } catch {
+      this.exportError = 'Não foi possível gerar a proposta em PDF. Tente novamente.';
+    } finally {
+      this.isExporting = false;
+    }
   }
 
-  private calculateByNetSalaryTarget(): ProposalData[] {
-    const mappedMaritalStatus = this.getMappedMaritalStatus();
-
-    console.log('=== DEBUG REVERSE ===');
-    console.log('Target Net:', this.targetNetSalary);
-    console.log('Meal Daily:', this.subsRefeicaoDaily);
-    console.log('Meal Days:', this.subsRefeicaoDays);
-    console.log('Meal Months:', this.subsRefeicaoMonths);
-    console.log('Annual Meal:', this.annualDailyMealAllowance);
-    console.log('Annual Cost:', this.annualCost);
-    //iht
-    console.log('IHT Percentage:', this.IhtPercentage);
-    console.log('IHT:', this.pickedIHTPercentage);
-    //tsu
-    console.log('TSU:', this.tsu);
-    //ss
-    console.log('Social Security:', this.segSocialRegimeGeral);
-    console.log('=====================');
-
-    const proposals = this.reverseService.getProposals({
-      targetNetSalary: this.targetNetSalary,
+  // Helper methods
+  private getSimulatorState(): SimulatorState {
+    const { companyName, ...profile } = this.getCompanyProfile();
+    return {
+      ...profile,
+      calculateBy: this.calculateBy,
+      annualCost: Number(this.annualCost),
+      targetNetSalary: Number(this.targetNetSalary),
+      grossSalary: Number(this.grossSalary),
+      baseSalary: Number(this.baseSalary),
+      maritalStatus: this.maritalStatus,
+      hasDisability: this.hasDisability,
       location: this.location,
-      maritalStatus: mappedMaritalStatus,
       dependents: Number(this.dependents) || 0,
-      hasDuodecimos: this.hasDuodecimos,
-      mealAllowanceDaily: this.includeMealAllowance ? this.subsRefeicaoDaily : 0,
-      mealAllowanceDays: this.subsRefeicaoDays,
-      mealAllowanceMonths: this.subsRefeicaoMonths,
-      ihtPercentage: this.IhtPercentage,
-      tsu: this.tsu,
-      ssRate: this.segSocialRegimeGeral / 100,
-    });
-
-    // Retorna diretamente as proposals do serviço
-    // (assumindo que já vêm no formato ProposalData)
-    return proposals;
+      dependentsWithDisability: this.getDependentsWithDisability(),
+      paymentDate: this.paymentDate,
+      irsJovemCareerYear: Number(this.irsJovemCareerYear) || 0,
+      taxRegime: this.taxRegime,
+      subsidyPaymentMode: this.subsidyPaymentMode,
+      includeMealAllowance: this.includeMealAllowance,
+      ihtType: this.ihtType,
+      IhtPercentage: Number(this.IhtPercentage),
+      ihtFixedAmount: Number(this.ihtFixedAmount) || 0,
+      ihtCategory: this.ihtCategory,
+    };
   }
 
-  private getMappedMaritalStatus(): MaritalStatus {
-    if (this.maritalStatus === 'married') {
-      return this.dependents === 1
-        ? 'married_one_holder'
-        : 'married_two_holders';
+  /** The value typed for the mode picked in "Calcular por". */
+  private getTargetValue(): number {
+    switch (this.calculateBy) {
+      case 'annualCost':
+        return Number(this.annualCost);
+      case 'grossSalary':
+        return Number(this.grossSalary);
+      case 'baseSalary':
+        return Number(this.baseSalary);
+      default:
+        return Number(this.targetNetSalary);
     }
-    return 'single';
   }
 
-  /**
-   * Método central que converte ProposalData para SimulationResult
-   * Todos os cálculos passam por aqui
-   */
-  private mapToSimulationResult(proposal: ProposalData): SimulationResult {
-    let baseSalary = Number(proposal.monthlyBaseSalary.toFixed(2));
-    let iht = Number(proposal.monthlyIHT.toFixed(2));
-    const totalIrs = Number(proposal.irs.toFixed(2));
-    const socialSecurityMax = Number(proposal.socialSecurityMax.toFixed(2));
-    const monthlyBenefits = Number(proposal.monthlyBenefits.toFixed(2));
-
-    let duodecimoSF = 0;
-    let duodecimoSN = 0;
-    let irsSF = 0;
-    let irsSN = 0;
-    let irsBase = totalIrs;
-
-    if (this.hasDuodecimos) {
-      // Deconstruct the values into 14-month basis
-      // The proposal values are currently (Annual / 12), so we convert back to (Annual / 14)
-      const baseSalary14 = (proposal.monthlyBaseSalary * 12) / 14;
-      const iht14 = (proposal.monthlyIHT * 12) / 14;
-
-      duodecimoSF = baseSalary14 / 12;
-      duodecimoSN = baseSalary14 / 12;
-
-      // Recalculate IRS just for the base part (14 months perspective)
-      // We assume IHT is also part of the base tax calculation
-      const mappedMaritalStatus = this.getMappedMaritalStatus();
-      const calculationBase = this.irsService.calculate({
-        grossSalary: baseSalary14 + iht14,
-        maritalStatus: mappedMaritalStatus,
-        location: this.location,
-        dependents: Number(this.dependents) || 0,
-        socialSecurityRate: this.segSocialRegimeGeral / 100,
-      });
+  /** Copies the fields of a shared link into the form (company fields into the profile being edited). */
+  private applySimulatorState(state: Partial<SimulatorState>): void {
+    this.calculateBy = state.calculateBy ?? this.calculateBy;
+    this.annualCost = state.annualCost ?? this.annualCost;
+    this.targetNetSalary = state.targetNetSalary ?? this.targetNetSalary;
+    this.grossSalary = state.grossSalary ?? this.grossSalary;
+    this.baseSalary = state.baseSalary ?? this.baseSalary;
+    this.maritalStatus = state.maritalStatus ?? this.maritalStatus;
+    this.hasDisability = state.hasDisability ?? this.hasDisability;
+    this.location = state.location ?? this.location;
+    this.dependents = state.dependents ?? this.dependents;
+    this.dependentsWithDisability = state.dependentsWithDisability ?? this.dependentsWithDisability;
+    this.paymentDate = state.paymentDate ?? this.paymentDate;
+    this.irsJovemCareerYear = state.irsJovemCareerYear ?? this.irsJovemCareerYear;
+    this.taxRegime = state.taxRegime ?? this.taxRegime;
+    this.subsidyPaymentMode = state.subsidyPaymentMode ?? this.subsidyPaymentMode;
+    this.includeMealAllowance = state.includeMealAllowance ?? this.includeMealAllowance;
+    this.ihtType = state.ihtType ?? this.ihtType;
+    this.IhtPercentage = state.IhtPercentage ?? this.IhtPercentage;
+    this.ihtFixedAmount = state.ihtFixedAmount ?? this.ihtFixedAmount;
+    this.ihtCategory = state.ihtCategory ?? this.ihtCategory;
+
+    const profile = this.companyProfile;
+    this.companyProfile = {
+      companyName: profile.companyName,
+      tsu: state.tsu ?? profile.tsu,
+      employeeSocialSecurityRate: state.employeeSocialSecurityRate ?? profile.employeeSocialSecurityRate,
+      mealAllowanceDaily: state.mealAllowanceDaily ?? profile.mealAllowanceDaily,
+      mealAllowanceDays: state.mealAllowanceDays ?? profile.mealAllowanceDays,
+      mealAllowanceMonths: state.mealAllowanceMonths ?? profile.mealAllowanceMonths,
+      mealAllowancePaymentMethod: state.mealAllowancePaymentMethod ?? profile.mealAllowancePaymentMethod,
+      minFlexBenefitsPercentage: state.minFlexBenefitsPercentage ?? profile.minFlexBenefitsPercentage,
+      maxFlexBenefitsPercentage: state.maxFlexBenefitsPercentage ?? profile.maxFlexBenefitsPercentage,
+      flexBenefitsStep: state.flexBenefitsStep ?? profile.flexBenefitsStep,
+    };
+  }
 
-      irsBase = Number(calculationBase.irsWithheld.toFixed(2));
-      const irsRemanescente = Math.max(0, totalIrs - irsBase);
-      
-      // Split remaining IRS between the two duodecimos
-      irsSF = Number((irsRemanescente / 2).toFixed(2));
-      irsSN = Number((irsRemanescente / 2).toFixed(2));
-      
-      // Update displayed base values to be the 14-month values
-      baseSalary = Number(baseSalary14.toFixed(2));
-      iht = Number(iht14.toFixed(2));
-    }
+  /** Keeps the URL in sync with the calculated inputs, so it can be shared. */
+  private updateQueryParams(state: SimulatorState): void {
+    if (!this.isBrowser) return;
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toQueryParams(state),
+      replaceUrl: true,
+    });
+  }
 
+  private getProposalExport(): ProposalExport | undefined {
+    if (!this.proposalParameters || this.liquidSalarySimulations.length === 0) return undefined;
     return {
-      flexBenefitsPercentage: proposal.flexBenefitsPercentage,
-      salaryBase: baseSalary,
-      IHT: iht,
-      duodecimoSF: Number(duodecimoSF.toFixed(2)),
-      duodecimoSN: Number(duodecimoSN.toFixed(2)),
-      irsSF,
-      irsSN,
-      irs: irsBase,
-      netSalary: Number(
-        (
-          proposal.monthlyBaseSalary + 
-          proposal.monthlyIHT - 
-          totalIrs - 
-          socialSecurityMax
-        ).toFixed(2),
-      ),
-      monthlyMealAllowance: Number(proposal.monthlyMealAllowance),
-      monthlyValueToBenefits: monthlyBenefits,
-      totalMax: Number(proposal.totalNetMax.toFixed(2)),
-      totalMin: Number(proposal.totalNetMin.toFixed(2)),
-      salaryBaseAndIHT: baseSalary + iht,
-      rendimento: baseSalary + iht + monthlyBenefits,
-      custoAnualParaEmpresa: Number(proposal.annualCost.toFixed(2)),
+      ...this.proposalTarget,
+      parameters: this.proposalParameters,
+      results: this.liquidSalarySimulations,
     };
   }
 
-  private calculateAnnualCostToCompany(
-    grossSalary: number,
-    valueToBenefits: number,
-  ): number {
-    const monthsToMultiply = this.getMonthsMultiplier();
-    const annualGross = grossSalary * monthsToMultiply;
-    const annualBenefits = valueToBenefits * 12;
-    const tsuFactor = 1 + this.tsu / 100;
-
-    console.log('=== DEBUG CUSTO ===');
-    console.log('Gross Mensal:', grossSalary);
-    console.log('Benefícios Mensais:', valueToBenefits);
-    console.log('Meses (Gross):', monthsToMultiply);
-    console.log('Gross Anual:', annualGross);
-    console.log('TSU Factor:', tsuFactor);
-    console.log('TSU Amount:', annualGross * (tsuFactor - 1));
-    console.log('Benefícios Anuais:', annualBenefits);
-    console.log('Subsídio Anual:', this.annualDailyMealAllowance);
-
-    const total =
-      annualGross * tsuFactor + annualBenefits + this.annualDailyMealAllowance;
-    console.log('TOTAL:', total);
-    console.log('==================');
-
-    return total;
+  private describeCompanyProfileErrors(errors: CompanyProfileErrorCode[]): string[] {
+    return errors.map((error) => COMPANY_PROFILE_ERROR_MESSAGES[error]);
   }
 
-  // Helper methods
-  private getMonthsMultiplier(): number {
-    return this.hasDuodecimos ? 12 : 14;
+  private describeCalculationError(error: unknown): string {
+    if (error instanceof ReverseTargetUnreachableError) {
+      return (
+        `Não é possível atingir ${REVERSE_TARGET_LABELS[error.target]} de ${formatNumberPt(error.targetValue)} € ` +
+        `com um custo anual até ${formatNumberPt(MAX_ANNUAL_COST)} €.`
+      );
+    }
+    if (error instanceof IrsDatasetNotFoundError) {
+      const [year, month, day] = error.date.split('-');
+      return `Ainda não há tabelas de retenção na fonte para a data de pagamento ${day}/${month}/${year}.`;
+    }
+    return error instanceof Error ? error.message : String(error);
   }
 
-  private calculateIHT(monthlyGross: number): number {
-    return (monthlyGross * this.IhtPercentage) / (100 + this.IhtPercentage);
+  private getIrsJovem(): IrsJovem | undefined {
+    // O IRS Jovem não é acumulável com o regime IFICI
+    if (this.taxRegime === 'ifici') return undefined;
+    const careerYear = Number(this.irsJovemCareerYear) || 0;
+    return careerYear > 0 ? { careerYear } : undefined;
   }
 
-  private calculateMonthlyMealAllowance(): number {
-    return this.includeMealAllowance ? this.subsRefeicaoDaily * this.subsRefeicaoDays : 0;
+  private getDependentsWithDisability(): number {
+    // Nunca mais do que o número total de dependentes
+    const dependents = Number(this.dependents) || 0;
+    return Math.min(Number(this.dependentsWithDisability) || 0, dependents);
   }
 
-  private calculateAnnualMealAllowance(): number {
-    if (!this.includeMealAllowance) return 0;
+  private getProposalParameters(): ProposalParameters {
+    return {
+      location: this.location,
+      paymentDate: this.paymentDate || undefined,
+      maritalStatus: this.maritalStatus,
+      dependents: Number(this.dependents) || 0,
+      dependentsWithDisability: this.getDependentsWithDisability(),
+      hasDisability: this.hasDisability,
+      subsidyPaymentMode: this.subsidyPaymentMode,
+      ihtPercentage: this.IhtPercentage,
+      ihtFixedAmount: this.ihtType === 'fixed' ? Number(this.ihtFixedAmount) || 0 : undefined,
+      ihtCategory: this.ihtCategory,
+      irsJovem: this.getIrsJovem(),
+      taxRegime: this.taxRegime,
+      ...companyProfileParameters(this.getCompanyProfile()),
+      mealAllowanceDaily: this.includeMealAllowance ? Number(this.companyProfile.mealAllowanceDaily) : 0,
+    };
+  }
 
-    console.log('=== DEBUG MEAL ===');
-    console.log('Daily:', this.subsRefeicaoDaily);
-    console.log('Days:', this.subsRefeicaoDays);
-    console.log('Months:', this.subsRefeicaoMonths);
-    console.log(
-      'Result:',
-      this.subsRefeicaoDaily * this.subsRefeicaoDays * this.subsRefeicaoMonths,
-    );
-    console.log('==================');
-    return (
-      this.subsRefeicaoDaily * this.subsRefeicaoDays * this.subsRefeicaoMonths
-    );
+  /** The profile as edited in the form, with the numeric inputs converted to numbers. */
+  private getCompanyProfile(): CompanyProfile {
+    const profile = this.companyProfile;
+    return {
+      companyName: String(profile.companyName ?? ''),
+      tsu: Number(profile.tsu),
+      employeeSocialSecurityRate: Number(profile.employeeSocialSecurityRate),
+      mealAllowanceDaily: Number(profile.mealAllowanceDaily),
+      mealAllowanceDays: Number(profile.mealAllowanceDays),
+      mealAllowanceMonths: Number(profile.mealAllowanceMonths),
+      mealAllowancePaymentMethod: profile.mealAllowancePaymentMethod,
+      minFlexBenefitsPercentage: Number(profile.minFlexBenefitsPercentage),
+      maxFlexBenefitsPercentage: Number(profile.maxFlexBenefitsPercentage),
+      flexBenefitsStep: Number(profile.flexBenefitsStep),
+    };
   }
 
-  private roundToCents(value: number): number {
-    return Number((Math.ceil(value * 100) / 100).toFixed(2));
+  private calculateMonthlyMealAllowance(): number {
+    const { mealAllowanceDaily, mealAllowanceDays } = this.getCompanyProfile();
+    return this.includeMealAllowance ? mealAllowanceDaily * mealAllowanceDays : 0;
+  }
+
+  private calculateAnnualMealAllowance(): number {
+    if (!this.includeMealAllowance) return 0;
+    const { mealAllowanceDaily, mealAllowanceDays, mealAllowanceMonths } = this.getCompanyProfile();
+    return mealAllowanceDaily * mealAllowanceDays * mealAllowanceMonths;
   }
 
   private resetResults(): void {
+    this.calculationError = '';
+    this.exportError = '';
     this.liquidSalarySimulations = [];
+    this.payrollCalendar = undefined;
+    this.proposals = [];
+    this.proposalParameters = undefined;
+    this.calculatedState = undefined;
   }
 
   private clearLoadingTimer(): void {
@@ -214,7 +214,7 @@ export class SimulatorComponent implements OnDestroy {
       location: this.location,
       maritalStatus: mappedMaritalStatus,
       dependents: Number(this.dependents) || 0,
-      hasDuodecimos: this.hasDuodecimos,
+      subsidyPaymentMode: this.hasDuodecimos ? 'duodecimos' : 'june_november',
       mealAllowanceDaily: this.subsRefeicaoDaily,
       mealAllowanceDays: this.subsRefeicaoDays,
       mealAllowanceMonths: this.subsRefeicaoMonths,
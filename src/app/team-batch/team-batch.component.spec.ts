@@ -0,0 +1,56 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { TeamBatchComponent } from './team-batch.component';
+
+describe('TeamBatchComponent', () => {
+  let component: TeamBatchComponent;
+  let fixture: ComponentFixture<TeamBatchComponent>;
+
+  const csv = 'nome;vencimento_base;custo_anual\nAna;2000;\nRui;;42000\nSem valor;;';
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [TeamBatchComponent]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(TeamBatchComponent);
+    component = fixture.componentInstance;
+    fixture.detectChanges();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+
+  it('should simulate the valid lines and list the others', () => {
+    component.loadCsv(csv);
+    fixture.detectChanges();
+
+    const element: HTMLElement = fixture.nativeElement;
+    expect(component.batch?.totals.employees).toBe(2);
+    expect(element.querySelectorAll('tbody tr').length).toBe(2);
+    expect(element.querySelector('.alert-warning')?.textContent).toContain('Linha 4');
+  });
+
+  it('should recalculate with the subsidies in duodécimos', () => {
+    component.loadCsv(csv);
+    const { monthlyNet, annualCost } = component.batch!.totals;
+
+    component.subsidyPaymentMode = 'duodecimos';
+    component.calculate();
+
+    expect(component.batch!.totals.monthlyNet).toBeGreaterThan(monthlyNet);
+    expect(component.batch!.totals.annualCost).toBe(annualCost);
+  });
+
+  it('should leave the meal allowance out of the cost when it is not included', () => {
+    component.loadCsv(csv);
+    const annualCost = component.batch!.members[0].result.custoAnualParaEmpresa;
+
+    component.includeMealAllowance = false;
+    component.calculate();
+
+    expect(component.batch!.members[0].result.custoAnualParaEmpresa).toBeLessThan(annualCost);
+  });
+});
@@ -0,0 +1,105 @@
+import { Component, inject } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { CurrencyPtPipe } from '../pipes/currency-pt.pipe';
+import { CalculateNetSalaryService } from '../services/calculate-net-salary-service.service';
+import { IrsAnnualSettlementService } from '../services/irs-annual-settlement.service';
+import { SubsidyPaymentMode } from '../services/salary-forward.service';
+import { CompanyProfileService } from '../services/company-profile.service';
+import { CompanyProfile, companyProfileParameters } from '../services/company-profile';
+import {
+  TEAM_CSV_TEMPLATE,
+  TeamBatchResult,
+  TeamBatchService,
+  TeamFileError,
+  TeamMember,
+  TeamParameters,
+  parseTeamCsv,
+  toTeamCsv,
+} from '../services/team-batch.service';
+import { toCsv } from '../utils/csv';
+import { downloadFile } from '../utils/download';
+import { loadIrsDatasets } from '../data/irs-datasets';
+
+export const TEAM_RESULTS_FILE_NAME = 'simulacao-equipa';
+
+@Component({
+  selector: 'app-team-batch',
+  standalone: true,
+  imports: [FormsModule, CurrencyPtPipe],
+  templateUrl: './team-batch.component.html',
+  styleUrl: './team-batch.component.scss'
+})
+export class TeamBatchComponent {
+  // Form inputs
+  subsidyPaymentMode: SubsidyPaymentMode = 'june_november';
+  includeMealAllowance = true;
+
+  // Uploaded file
+  fileName = '';
+  members: TeamMember[] = [];
+  fileErrors: TeamFileError[] = [];
+
+  // Results
+  batch?: TeamBatchResult;
+  calculationError = '';
+
+  readonly companyProfile: CompanyProfile;
+
+  private readonly irsService = inject(CalculateNetSalaryService);
+  private readonly settlementService = inject(IrsAnnualSettlementService);
+  private readonly teamBatchService = inject(TeamBatchService);
+
+  constructor() {
+    loadIrsDatasets(this.irsService, this.settlementService);
+    // Os parâmetros da empresa são os do perfil guardado no simulador
+    this.companyProfile = inject(CompanyProfileService).get();
+  }
+
+  async onFileSelected(event: Event): Promise<void> {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    this.fileName = file.name;
+    this.loadCsv(await file.text());
+    // Permite voltar a carregar o mesmo ficheiro depois de o corrigir
+    input.value = '';
+  }
+
+  loadCsv(text: string): void {
+    const { members, errors } = parseTeamCsv(text);
+    this.members = members;
+    this.fileErrors = errors;
+    this.calculate();
+  }
+
+  calculate(): void {
+    this.batch = undefined;
+    this.calculationError = '';
+    if (this.members.length === 0) return;
+
+    try {
+      this.batch = this.teamBatchService.simulate(this.members, this.getTeamParameters());
+    } catch (error) {
+      this.calculationError = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  downloadResults(): void {
+    if (!this.batch) return;
+    downloadFile(new Blob([toTeamCsv(this.batch)], { type: 'text/csv;charset=utf-8' }), `${TEAM_RESULTS_FILE_NAME}.csv`);
+  }
+
+  downloadTemplate(): void {
+    downloadFile(new Blob([toCsv(TEAM_CSV_TEMPLATE)], { type: 'text/csv;charset=utf-8' }), 'equipa-modelo.csv');
+  }
+
+  private getTeamParameters(): TeamParameters {
+    const profile = companyProfileParameters(this.companyProfile);
+    return {
+      ...profile,
+      subsidyPaymentMode: this.subsidyPaymentMode,
+      mealAllowanceDaily: this.includeMealAllowance ? profile.mealAllowanceDaily : 0,
+    };
+  }
+}
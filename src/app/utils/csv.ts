@@ -0,0 +1,70 @@
+import { formatNumberPt } from './number-format';
+
+/**
+ * CSV for spreadsheets set to Portuguese: ";" between fields (the comma is
+ * the decimal separator), numbers as "1 000,50" like CurrencyPtPipe, and a
+ * UTF-8 BOM so Excel keeps the accents.
+ */
+
+export type CsvValue = string | number | null | undefined;
+
+export const CSV_SEPARATOR = ';';
+
+export function toCsv(rows: CsvValue[][]): string {
+  const lines = rows.map((row) => row.map(escapeCsvValue).join(CSV_SEPARATOR));
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'number' ? formatNumberPt(value) : value;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Rows of a CSV file, as written by toCsv or by a spreadsheet: fields in
+ * quotes may hold the separator, quotes ("") and line breaks. The separator
+ * is ";" unless the first line only has ",".
+ */
+export function fromCsv(text: string): string[][] {
+  const content = text.replace(/^\uFEFF/, '');
+  const firstLine = content.split(/\r?\n/, 1)[0];
+  const separator = firstLine.includes(CSV_SEPARATOR) || !firstLine.includes(',') ? CSV_SEPARATOR : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Linhas em branco (p.ex. entre os parâmetros e a tabela exportada) não contam
+  return rows.filter((fields) => fields.some((value) => value.trim() !== ''));
+}
@@ -0,0 +1,12 @@
+/**
+ * Saves a generated file (CSV, Excel, PDF) in the browser through a temporary
+ * link. Only call it from user actions in the browser.
+ */
+export function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,9 @@
+/**
+ * "2026-02-28" -> true; "2026-02-30", "2026-13-45" or "1/3/2026" -> false.
+ * The date must exist: it has to read back the same as a calendar day.
+ */
+export function isIsoDate(text: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return false;
+  const date = new Date(text);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === text;
+}
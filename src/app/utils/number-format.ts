@@ -0,0 +1,21 @@
+/** "1000.5" -> "1 000,50" (space for thousands, comma for decimals). */
+export function formatNumberPt(value: number, decimals = 2): string {
+  const [integerPart, decimalPart] = value.toFixed(decimals).split('.');
+  const formattedInteger = integerPart.replace(/\B(?=(\d{3})+(?!\d))/g, ' ');
+  return decimalPart === undefined ? formattedInteger : `${formattedInteger},${decimalPart}`;
+}
+
+/**
+ * "1 000,50", "1.000,50", "1000.50" -> 1000.5 (NaN when it is not a number).
+ * Dots between groups of three digits are read as thousands separators.
+ */
+export function parseNumberPt(text: string): number {
+  let normalized = text.trim().replace(/\s/g, '');
+  if (normalized === '') return NaN;
+  if (normalized.includes(',')) {
+    normalized = normalized.replace(/\./g, '').replace(',', '.');
+  } else if (/^-?\d{1,3}(\.\d{3})+$/.test(normalized)) {
+    normalized = normalized.replace(/\./g, '');
+  }
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : NaN;
+}
@@ -0,0 +1,27 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { fromCsv } from '../app/utils/csv';
+
+/**
+ * Batch input for the CLI: a CSV file with a header line (option names as
+ * columns, ";" or "," between fields) or a JSON array of objects. Each row
+ * becomes one calculation.
+ */
+export function readBatchInput(path: string): Record<string, unknown>[] {
+  const content = readFileSync(path, 'utf8');
+
+  if (extname(path).toLowerCase() === '.json') {
+    const data: unknown = JSON.parse(content);
+    const rows = Array.isArray(data) ? data : [data];
+    if (!rows.every((row) => typeof row === 'object' && row !== null && !Array.isArray(row))) {
+      throw new Error(`${path} must hold a JSON object or an array of objects.`);
+    }
+    return rows as Record<string, unknown>[];
+  }
+
+  const [header, ...lines] = fromCsv(content);
+  if (!header) throw new Error(`${path} is empty.`);
+  return lines.map((fields) =>
+    Object.fromEntries(header.map((column, index) => [column.trim(), fields[index] ?? ''])),
+  );
+}
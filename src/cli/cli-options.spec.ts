@@ -0,0 +1,48 @@
+import { findOption, flagOf, toRequestBody } from './cli-options';
+
+describe('salary-sim options', () => {
+  it('should find an option by flag, batch column or request field', () => {
+    expect(findOption('--annual-cost')?.[1].field).toBe('annualCost');
+    expect(findOption('status')?.[1].field).toBe('maritalStatus');
+    expect(findOption('grossSalary')?.[0]).toBe('gross');
+    expect(findOption('toString')).toBeUndefined();
+  });
+
+  it('should build the request body with typed values and the defaults', () => {
+    expect(toRequestBody({ gross: '2000', dependents: '1', disability: true, 'irs-jovem': '3' })).toEqual({
+      maritalStatus: 'single',
+      location: 'continente',
+      grossSalary: 2000,
+      dependents: 1,
+      hasDisability: true,
+      irsJovem: { careerYear: 3 }
+    });
+  });
+
+  it('should read Portuguese numbers and booleans from batch files', () => {
+    const body = toRequestBody({ name: 'Ana', gross: '2 000,50', disability: 'Sim', 'irs-jovem': '0' });
+
+    expect(body['grossSalary']).toBe(2000.5);
+    expect(body['hasDisability']).toBeTrue();
+    expect(body['irsJovem']).toBeUndefined();
+    expect(body['name']).toBeUndefined();
+  });
+
+  it('should let the batch row override the command line, except for empty cells', () => {
+    const body = toRequestBody({ tsu: '22.3', status: 'married_one_holder' }, { tsu: '20', status: '' });
+
+    expect(body['tsu']).toBe(20);
+    expect(body['maritalStatus']).toBe('married_one_holder');
+  });
+
+  it('should keep JSON values and unknown keys as they are', () => {
+    const body = toRequestBody({ annualCost: 30000, 'irs-jovem': 2, bonus: 100 });
+
+    expect(body).toEqual(jasmine.objectContaining({ annualCost: 30000, irsJovem: { careerYear: 2 }, bonus: 100 }));
+  });
+
+  it('should name the flag of a request field', () => {
+    expect(flagOf('targetNetSalary')).toBe('--net');
+    expect(flagOf('bonus')).toBe('bonus');
+  });
+});
@@ -0,0 +1,109 @@
+import { parseNumberPt } from '../app/utils/number-format';
+import { IRS_DATASET_LOCATIONS } from '../app/data/irs-datasets';
+
+/**
+ * Command-line options of salary-sim and their request fields (the bodies
+ * of the /api endpoints, see salary-api.service.ts). The same names are the
+ * columns of a CSV batch file or the keys of a JSON one; the request field
+ * names are accepted too.
+ */
+
+export type CliCommand = 'net' | 'proposals';
+
+type ValueType = 'text' | 'number' | 'boolean' | 'irsJovem';
+
+export interface CliOption {
+  field: string;
+  type: ValueType;
+  commands: CliCommand[];
+  description: string;
+}
+
+const BOTH: CliCommand[] = ['net', 'proposals'];
+
+export const CLI_OPTIONS: Record<string, CliOption> = {
+  gross: { field: 'grossSalary', type: 'number', commands: ['net'], description: 'Monthly gross salary (€)' },
+  'annual-cost': { field: 'annualCost', type: 'number', commands: ['proposals'], description: 'Annual cost for the company (€)' },
+  net: { field: 'targetNetSalary', type: 'number', commands: ['proposals'], description: 'Target monthly net salary (€), instead of --annual-cost' },
+  status: { field: 'maritalStatus', type: 'text', commands: BOTH, description: 'single | married_one_holder | married_two_holders (default single)' },
+  location: { field: 'location', type: 'text', commands: BOTH, description: `${IRS_DATASET_LOCATIONS.join(' | ')} (default continente)` },
+  dependents: { field: 'dependents', type: 'number', commands: BOTH, description: 'Number of dependents' },
+  'dependents-with-disability': { field: 'dependentsWithDisability', type: 'number', commands: BOTH, description: 'Dependents with a disability (>= 60%)' },
+  disability: { field: 'hasDisability', type: 'boolean', commands: BOTH, description: 'The worker has a disability (>= 60%)' },
+  date: { field: 'paymentDate', type: 'text', commands: BOTH, description: 'Payment date (YYYY-MM-DD), picks the IRS tables' },
+  'irs-jovem': { field: 'irsJovem', type: 'irsJovem', commands: BOTH, description: 'IRS Jovem year of career (1-10)' },
+  regime: { field: 'taxRegime', type: 'text', commands: BOTH, description: 'standard | ifici' },
+  'ss-rate': { field: 'socialSecurityRate', type: 'number', commands: ['net'], description: 'Worker social security rate (default 0.11)' },
+  subsidies: { field: 'subsidyPaymentMode', type: 'text', commands: ['proposals'], description: 'june_november | duodecimos | half_duodecimos' },
+  iht: { field: 'ihtPercentage', type: 'number', commands: ['proposals'], description: 'IHT as a % of the base salary (default 0)' },
+  'iht-fixed': { field: 'ihtFixedAmount', type: 'number', commands: ['proposals'], description: 'Monthly IHT in €, instead of --iht' },
+  'iht-category': { field: 'ihtCategory', type: 'text', commands: ['proposals'], description: 'unlimited | extended_hours | normal_period' },
+  tsu: { field: 'tsu', type: 'number', commands: ['proposals'], description: 'Company TSU % (default 23.75)' },
+  'employee-ss-rate': { field: 'ssRate', type: 'number', commands: ['proposals'], description: 'Worker social security rate (default 0.11)' },
+  'meal-daily': { field: 'mealAllowanceDaily', type: 'number', commands: ['proposals'], description: 'Daily meal allowance (€)' },
+  'meal-days': { field: 'mealAllowanceDays', type: 'number', commands: ['proposals'], description: 'Meal allowance days per month' },
+  'meal-months': { field: 'mealAllowanceMonths', type: 'number', commands: ['proposals'], description: 'Months with meal allowance' },
+  'meal-payment': { field: 'mealAllowancePaymentMethod', type: 'text', commands: ['proposals'], description: 'card | cash' },
+  'min-flex': { field: 'minFlexBenefitsPercentage', type: 'number', commands: ['proposals'], description: 'Lowest flexible benefits %' },
+  'max-flex': { field: 'maxFlexBenefitsPercentage', type: 'number', commands: ['proposals'], description: 'Highest flexible benefits %' },
+  'flex-step': { field: 'flexBenefitsStep', type: 'number', commands: ['proposals'], description: 'Flexible benefits % step' },
+};
+
+// Colunas de um ficheiro de lote que identificam a linha e não vão no pedido
+export const LABEL_COLUMNS = ['name', 'nome', 'id'];
+
+const COMMAND_DEFAULTS: Record<string, unknown> = { maritalStatus: 'single', location: 'continente' };
+
+/** The option named by a flag, a batch column or a request field. */
+export function findOption(key: string): [string, CliOption] | undefined {
+  const name = key.trim().replace(/^--/, '');
+  if (Object.hasOwn(CLI_OPTIONS, name)) return [name, CLI_OPTIONS[name]];
+  return Object.entries(CLI_OPTIONS).find(([, option]) => option.field === name);
+}
+
+/**
+ * Request body from option values (command line and batch row, the row
+ * winning). Unknown keys are kept as they are, so the API reports them.
+ */
+export function toRequestBody(...sources: Record<string, unknown>[]): Record<string, unknown> {
+  const body: Record<string, unknown> = { ...COMMAND_DEFAULTS };
+  for (const source of sources) {
+    for (const [key, value] of Object.entries(source)) {
+      if (LABEL_COLUMNS.includes(key.toLowerCase())) continue;
+      const found = findOption(key);
+      const field = found ? found[1].field : key;
+      const converted = found ? convert(found[1].type, value) : value;
+      if (converted !== undefined) body[field] = converted;
+    }
+  }
+  return body;
+}
+
+/** The flag of a request field, to point at it in error messages. */
+export function flagOf(field: string): string {
+  const found = Object.entries(CLI_OPTIONS).find(([, option]) => option.field === field);
+  return found ? `--${found[0]}` : field;
+}
+
+/** Option values typed for the request; an empty value means "not set" (keeps the default). */
+function convert(type: ValueType, value: unknown): unknown {
+  if (typeof value !== 'string') {
+    if (type === 'irsJovem' && typeof value === 'number') return value > 0 ? { careerYear: value } : undefined;
+    return value;
+  }
+
+  const text = value.trim();
+  if (text === '') return undefined;
+  switch (type) {
+    case 'number':
+      return parseNumberPt(text);
+    case 'boolean':
+      return ['true', 'sim', 'yes', '1'].includes(text.toLowerCase());
+    case 'irsJovem': {
+      const careerYear = parseNumberPt(text);
+      return careerYear === 0 ? undefined : { careerYear };
+    }
+    default:
+      return text;
+  }
+}
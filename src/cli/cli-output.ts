@@ -0,0 +1,70 @@
+import { IrsResult } from '../app/services/calculate-net-salary-service.service';
+import { SimulationResult } from '../app/services/salary-forward.service';
+
+/**
+ * Plain-text tables for the terminal. Amounts keep a "." decimal point and no
+ * thousands separator, so the output can be piped to other tools.
+ */
+
+type Cell = string | number;
+
+export const NET_SALARY_HEADER = ['Input', 'Gross', 'Table', 'Rate', 'IRS', 'SS', 'Net'];
+
+export const PROPOSALS_HEADER = [
+  'Input', 'Flex %', 'Base', 'IHT', 'Duodecimos', 'IRS', 'SS', 'Net salary',
+  'Benefits', 'Meal', 'Total max', 'Total min', 'Annual cost', 'Marginal', 'Next band',
+];
+
+export function netSalaryRow(label: string, result: IrsResult): Cell[] {
+  return [
+    label,
+    amount(result.taxableSalary + result.irsJovemExemption),
+    result.tableId,
+    `${(result.rate * 100).toFixed(2)}%`,
+    amount(result.irsWithheld),
+    amount(result.socialSecurity),
+    amount(result.netSalary),
+  ];
+}
+
+export function proposalRow(label: string, result: SimulationResult): Cell[] {
+  return [
+    label,
+    result.flexBenefitsPercentage,
+    amount(result.salaryBase),
+    amount(result.IHT),
+    amount(result.duodecimoSF + result.duodecimoSN),
+    amount(result.irs + result.irsSF + result.irsSN),
+    amount(result.socialSecurity),
+    amount(result.netSalary),
+    amount(result.monthlyValueToBenefits),
+    amount(result.monthlyMealAllowance),
+    amount(result.totalMax),
+    amount(result.totalMin),
+    amount(result.custoAnualParaEmpresa),
+    `${result.marginalRate.toFixed(2)}%`,
+    result.nextBandDistance === undefined ? '-' : amount(result.nextBandDistance),
+  ];
+}
+
+/** Columns padded to the widest cell; text to the left, numbers to the right. */
+export function formatTable(header: string[], rows: Cell[][]): string {
+  const widths = header.map((title, column) =>
+    Math.max(title.length, ...rows.map((row) => String(row[column]).length)),
+  );
+  const line = (cells: Cell[], alignNumbers: boolean) =>
+    cells
+      .map((cell, column) => {
+        const text = String(cell);
+        const isNumber = alignNumbers && /^-?[\d.]+%?$/.test(text);
+        return isNumber ? text.padStart(widths[column]) : text.padEnd(widths[column]);
+      })
+      .join('  ')
+      .trimEnd();
+
+  return [line(header, false), widths.map((width) => '-'.repeat(width)).join('  '), ...rows.map((row) => line(row, true))].join('\n');
+}
+
+function amount(value: number): string {
+  return value.toFixed(2);
+}
@@ -0,0 +1,127 @@
+import { parseArgs } from 'node:util';
+import { IrsResult } from '../app/services/calculate-net-salary-service.service';
+import { ApiResponse, ProposalsResponse } from '../app/services/salary-api.service';
+import { createSalaryApi } from '../app/services/salary-services';
+import { CLI_OPTIONS, CliCommand, LABEL_COLUMNS, flagOf, toRequestBody } from './cli-options';
+import { readBatchInput } from './batch-input';
+import { NET_SALARY_HEADER, PROPOSALS_HEADER, formatTable, netSalaryRow, proposalRow } from './cli-output';
+
+/**
+ * salary-sim: the simulator's calculations from the command line, for bulk
+ * payroll checks. Uses the same services as the web app, created without
+ * Angular DI (see salary-services.ts).
+ *
+ *   salary-sim net --gross 2000 --status single --dependents 1
+ *   salary-sim proposals --annual-cost 30000 --json
+ *   salary-sim proposals --input team.csv --tsu 22.3
+ *
+ * Build with "npm run build:cli"; exits with 1 when any calculation failed.
+ */
+
+interface BatchResult<T> {
+  input: string;
+  result?: T;
+  error?: string;
+}
+
+const COMMANDS: CliCommand[] = ['net', 'proposals'];
+
+function main(args: string[]): number {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      ...Object.fromEntries(
+        Object.entries(CLI_OPTIONS).map(([name, option]) => [name, { type: option.type === 'boolean' ? 'boolean' : 'string' } as const]),
+      ),
+      input: { type: 'string', short: 'i' },
+      json: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+
+  const command = positionals[0] as CliCommand;
+  if (values['help'] || !COMMANDS.includes(command)) {
+    console.log(usage());
+    return values['help'] ? 0 : 1;
+  }
+
+  // Passo 1: uma linha por cálculo (o ficheiro de lote ou só as opções da linha de comandos)
+  const { input, json, help, ...options } = values;
+  const rows = typeof input === 'string' ? readBatchInput(input) : [{}];
+  const label = (row: Record<string, unknown>, index: number) => {
+    const column = Object.keys(row).find((key) => LABEL_COLUMNS.includes(key.toLowerCase()));
+    return column && row[column] ? String(row[column]) : String(index + 1);
+  };
+
+  // Passo 2: calcular cada linha com os serviços da aplicação
+  const api = createSalaryApi();
+  const results = rows.map((row, index) => {
+    const body = toRequestBody(options, row);
+    return toBatchResult<IrsResult | ProposalsResponse>(label(row, index), command === 'net' ? api.netSalary(body) : proposals(api, body));
+  });
+
+  // Passo 3: escrever a tabela ou o JSON; os erros vão para o stderr
+  const failed = results.filter((row) => row.error !== undefined);
+  failed.forEach((row) => console.error(`${row.input}: ${row.error}`));
+  if (json) {
+    // Sem ficheiro de lote, só o resultado (como a resposta da API)
+    const output = input ? results : results[0].result;
+    if (output) console.log(JSON.stringify(output, null, 2));
+  } else if (command === 'net') {
+    const table = results.filter((row) => row.result).map((row) => netSalaryRow(row.input, row.result as IrsResult));
+    console.log(formatTable(NET_SALARY_HEADER, table));
+  } else {
+    const table = results.flatMap((row) =>
+      ((row.result as ProposalsResponse | undefined)?.proposals ?? []).map((result) => proposalRow(row.input, result)),
+    );
+    console.log(formatTable(PROPOSALS_HEADER, table));
+  }
+  return failed.length > 0 ? 1 : 0;
+}
+
+/** By annual cost, or by net salary when only the target net salary is given. */
+function proposals(api: ReturnType<typeof createSalaryApi>, body: Record<string, unknown>): ApiResponse<ProposalsResponse> {
+  if (body['targetNetSalary'] !== undefined && body['annualCost'] === undefined) {
+    return api.proposalsByNet(body);
+  }
+  return api.proposalsByCost(body);
+}
+
+function toBatchResult<T>(input: string, response: ApiResponse<T>): BatchResult<T> {
+  if (response.status === 200) return { input, result: response.body };
+
+  const { error } = response.body;
+  const details = (error.details ?? []).map((detail) => `${flagOf(detail.path)}: ${detail.message}`);
+  return { input, error: details.length > 0 ? details.join(' ') : error.message };
+}
+
+function usage(): string {
+  const options = (command: CliCommand) =>
+    Object.entries(CLI_OPTIONS)
+      .filter(([, option]) => option.commands.includes(command))
+      .map(([name, option]) => `  --${name.padEnd(28)}${option.description}`)
+      .join('\n');
+
+  return [
+    'Usage: salary-sim <net | proposals> [options]',
+    '',
+    'net: IRS withholding and net salary of a monthly gross salary',
+    options('net'),
+    '',
+    'proposals: one proposal per flexible benefits %, by --annual-cost or by --net',
+    options('proposals'),
+    '',
+    'Common:',
+    `  --${'input, -i <file>'.padEnd(28)}CSV (header with the option names) or JSON batch file`,
+    `  --${'json'.padEnd(28)}Print JSON instead of a table`,
+    `  --${'help, -h'.padEnd(28)}Show this help`,
+  ].join('\n');
+}
+
+try {
+  process.exitCode = main(process.argv.slice(2));
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+}